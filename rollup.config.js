@@ -53,6 +53,13 @@ export default [
     external: [
       'three',
       'three/examples/jsm/loaders/GLTFLoader.js',
+      'three/examples/jsm/loaders/DRACOLoader.js',
+      'three/examples/jsm/loaders/KTX2Loader.js',
+      'three/examples/jsm/loaders/OBJLoader.js',
+      'three/examples/jsm/loaders/STLLoader.js',
+      'three/examples/jsm/loaders/PLYLoader.js',
+      'three/examples/jsm/loaders/FBXLoader.js',
+      'three/examples/jsm/loaders/3MFLoader.js',
       'three/examples/jsm/controls/OrbitControls.js'
     ],
     plugins: [
@@ -74,6 +81,47 @@ export default [
       })
     ]
   },
+  // 无头引擎（不含 UI 与样式，可在 Node / Web Worker 中使用）
+  {
+    input: 'src/engine.ts',
+    output: [
+      {
+        file: 'dist/gltf-exploder-engine.esm.js',
+        format: 'es',
+        banner,
+        sourcemap: true
+      },
+      {
+        file: 'dist/gltf-exploder-engine.cjs.js',
+        format: 'cjs',
+        banner,
+        sourcemap: true
+      }
+    ],
+    external: ['three'],
+    plugins: [
+      resolve(),
+      commonjs(),
+      typescript({
+        tsconfig: './tsconfig.json',
+        declaration: false,
+        declarationDir: undefined
+      }),
+      terser({
+        output: {
+          comments: /^!/
+        }
+      })
+    ]
+  },
+  {
+    input: 'src/engine.ts',
+    output: {
+      file: 'dist/types/engine.d.ts',
+      format: 'es'
+    },
+    plugins: [dts()]
+  },
   // Type definitions
   {
     input: 'src/index.ts',
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { Group, Object3D, Vector3 } from 'three';
+import { computePrincipalAxes } from './Axes';
+import { ExplosionEngine } from './Engine';
+import { addBox } from '../test/fixtures';
+
+/**
+ * 创建一根沿指定方向摆放的细长杆件
+ */
+function createRod(direction: Vector3): Group {
+  const root = new Group();
+  const rod = addBox(root, 'Rod', [10, 1, 2], [0, 0, 0]);
+  rod.quaternion.setFromUnitVectors(new Vector3(1, 0, 0), direction.clone().normalize());
+  root.updateMatrixWorld(true);
+  return root;
+}
+
+function expectParallel(actual: Vector3, expected: Vector3): void {
+  expect(Math.abs(actual.dot(expected.clone().normalize()))).toBeCloseTo(1, 6);
+}
+
+describe('computePrincipalAxes', () => {
+  it('按方差从大到小返回相互正交的主轴', () => {
+    const [major, middle, minor] = computePrincipalAxes(createRod(new Vector3(1, 0, 0)));
+
+    expectParallel(major, new Vector3(1, 0, 0));
+    expectParallel(middle, new Vector3(0, 0, 1));
+    expectParallel(minor, new Vector3(0, 1, 0));
+    expect(major.dot(middle)).toBeCloseTo(0, 6);
+    expect(major.dot(minor)).toBeCloseTo(0, 6);
+  });
+
+  it('主轴随模型朝向旋转，且绝对值最大的分量为正', () => {
+    const direction = new Vector3(-1, -1, 0).normalize();
+    const [major] = computePrincipalAxes(createRod(direction));
+
+    expectParallel(major, direction);
+    const components = [major.x, major.y, major.z];
+    const dominant = components.reduce((best, value) => (Math.abs(value) > Math.abs(best) ? value : best), 0);
+    expect(dominant).toBeGreaterThan(0);
+  });
+
+  it('没有顶点时返回世界坐标轴', () => {
+    const axes = computePrincipalAxes(new Object3D());
+    expect(axes.map(axis => axis.toArray())).toEqual([[1, 0, 0], [0, 1, 0], [0, 0, 1]]);
+  });
+});
+
+describe('ExplosionEngine.getPrincipalAxes', () => {
+  it('返回模型静止时的主轴', () => {
+    const model = createRod(new Vector3(0, 0, 1));
+    const engine = new ExplosionEngine(model, { adaptModel: false });
+    expectParallel(engine.getPrincipalAxes()[0], new Vector3(0, 0, 1));
+    engine.dispose();
+  });
+});
@@ -0,0 +1,242 @@
+import { Object3D, Vector3, Mesh, BufferGeometry, Matrix4, Quaternion } from 'three';
+import { EXPLODER_CONSTANTS, UpAxis } from './types';
+
+/**
+ * 对称 3x3 矩阵的特征分解（循环 Jacobi 迭代）
+ * @param m 行优先的对称矩阵
+ * @returns 特征值与对应的特征向量（列）
+ */
+function eigenSymmetric3(m: number[][]): { values: number[]; vectors: Vector3[] } {
+  const a = m.map(row => row.slice());
+  const v = [[1, 0, 0], [0, 1, 0], [0, 0, 1]];
+
+  for (let sweep = 0; sweep < 32; sweep++) {
+    const offDiagonal = Math.abs(a[0][1]) + Math.abs(a[0][2]) + Math.abs(a[1][2]);
+    if (offDiagonal < 1e-12) break;
+
+    for (let p = 0; p < 2; p++) {
+      for (let q = p + 1; q < 3; q++) {
+        if (Math.abs(a[p][q]) < 1e-15) continue;
+
+        // 计算使 a[p][q] 归零的旋转
+        const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+
+        for (let k = 0; k < 3; k++) {
+          const akp = a[k][p];
+          const akq = a[k][q];
+          a[k][p] = c * akp - s * akq;
+          a[k][q] = s * akp + c * akq;
+        }
+        for (let k = 0; k < 3; k++) {
+          const apk = a[p][k];
+          const aqk = a[q][k];
+          a[p][k] = c * apk - s * aqk;
+          a[q][k] = s * apk + c * aqk;
+        }
+        for (let k = 0; k < 3; k++) {
+          const vkp = v[k][p];
+          const vkq = v[k][q];
+          v[k][p] = c * vkp - s * vkq;
+          v[k][q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+
+  return {
+    values: [a[0][0], a[1][1], a[2][2]],
+    vectors: [0, 1, 2].map(i => new Vector3(v[0][i], v[1][i], v[2][i]).normalize())
+  };
+}
+
+/**
+ * 计算对象顶点（世界坐标）的主轴（PCA），按方差从大到小排列
+ * 顶点过多时按步长均匀采样；为保证结果稳定，每个轴绝对值最大的分量取正
+ *
+ * @param object 对象（会遍历其所有网格）
+ * @param maxSamples 最大采样顶点数
+ * @returns 三个相互正交的单位向量；没有顶点时返回世界坐标轴
+ */
+export function computePrincipalAxes(
+  object: Object3D,
+  maxSamples: number = EXPLODER_CONSTANTS.AXES.MAX_SAMPLES
+): Vector3[] {
+  const meshes: Mesh[] = [];
+  let total = 0;
+  object.traverse(child => {
+    if ((child as Mesh).isMesh && (child as Mesh).geometry) {
+      const position = ((child as Mesh).geometry as BufferGeometry).getAttribute('position');
+      if (position) {
+        meshes.push(child as Mesh);
+        total += position.count;
+      }
+    }
+  });
+
+  if (total < 3) {
+    return [new Vector3(1, 0, 0), new Vector3(0, 1, 0), new Vector3(0, 0, 1)];
+  }
+
+  const stride = Math.max(1, Math.ceil(total / maxSamples));
+  const points: Vector3[] = [];
+  const mean = new Vector3();
+
+  object.updateWorldMatrix(true, true);
+  for (const mesh of meshes) {
+    const position = mesh.geometry.getAttribute('position');
+    for (let i = 0; i < position.count; i += stride) {
+      const point = new Vector3().fromBufferAttribute(position, i).applyMatrix4(mesh.matrixWorld);
+      points.push(point);
+      mean.add(point);
+    }
+  }
+  mean.divideScalar(points.length);
+
+  // 协方差矩阵
+  const covariance = [[0, 0, 0], [0, 0, 0], [0, 0, 0]];
+  const d = new Vector3();
+  for (const point of points) {
+    d.subVectors(point, mean);
+    const components = [d.x, d.y, d.z];
+    for (let r = 0; r < 3; r++) {
+      for (let c = r; c < 3; c++) {
+        covariance[r][c] += components[r] * components[c];
+      }
+    }
+  }
+  for (let r = 0; r < 3; r++) {
+    for (let c = r; c < 3; c++) {
+      covariance[r][c] /= points.length;
+      covariance[c][r] = covariance[r][c];
+    }
+  }
+
+  const { values, vectors } = eigenSymmetric3(covariance);
+  const order = [0, 1, 2].sort((i, j) => values[j] - values[i]);
+
+  return order.map(i => {
+    const axis = vectors[i];
+    const components = [axis.x, axis.y, axis.z];
+    const dominant = components.reduce((best, value) => (Math.abs(value) > Math.abs(best) ? value : best), 0);
+    return dominant < 0 ? axis.negate() : axis;
+  });
+}
+
+/**
+ * 计算将模型转为 Y 轴朝上所需的世界空间旋转
+ * - z: 绕 X 轴旋转 -90°
+ * - auto: 先把主轴对齐到坐标轴（最长轴沿 X、最短轴沿 Y），
+ *   再在六个轴向中选出平整面积最大的一侧作为底面朝下；没有平整面时最短轴朝上
+ *
+ * @param object 模型
+ * @param upAxis 模型朝上的轴
+ * @returns 世界空间旋转
+ */
+export function computeUprightRotation(object: Object3D, upAxis: UpAxis): Quaternion {
+  if (upAxis === 'z') {
+    return new Quaternion().setFromAxisAngle(new Vector3(1, 0, 0), -Math.PI / 2);
+  }
+  if (upAxis !== 'auto') {
+    return new Quaternion();
+  }
+
+  // 1. 主轴对齐：最长轴 -> X，最短轴 -> Y，次轴 -> Z
+  const [major, middle, minor] = computePrincipalAxes(object);
+  const third = new Vector3().crossVectors(major, minor);
+  if (third.dot(middle) < 0) middle.negate();
+  const alignment = new Quaternion().setFromRotationMatrix(
+    new Matrix4().makeBasis(major, minor, middle).transpose()
+  );
+
+  // 2. 在对齐后的坐标系中寻找最大的平整底面
+  const down = findBaseDirection(object, alignment);
+  const upright = new Quaternion().setFromUnitVectors(down, new Vector3(0, -1, 0));
+
+  return upright.multiply(alignment);
+}
+
+/**
+ * 在对齐后的坐标系中，统计六个轴向上贴合包围盒极值平面的三角形面积，返回面积最大的方向
+ * @param object 模型
+ * @param alignment 主轴对齐旋转
+ * @returns 底面朝向（单位轴向），没有平整面时为 -Y
+ */
+function findBaseDirection(object: Object3D, alignment: Quaternion): Vector3 {
+  const { MAX_TRIANGLES, BASE_NORMAL_TOLERANCE, BASE_PLANE_TOLERANCE } = EXPLODER_CONSTANTS.ORIENTATION;
+
+  const meshes: Mesh[] = [];
+  let total = 0;
+  object.traverse(child => {
+    const geometry = (child as Mesh).isMesh ? ((child as Mesh).geometry as BufferGeometry) : null;
+    if (geometry && geometry.getAttribute('position')) {
+      meshes.push(child as Mesh);
+      total += Math.floor((geometry.index ? geometry.index.count : geometry.getAttribute('position').count) / 3);
+    }
+  });
+
+  const fallback = new Vector3(0, -1, 0);
+  if (total === 0) return fallback;
+
+  // 采样三角形并转换到对齐坐标系
+  const stride = Math.max(1, Math.ceil(total / MAX_TRIANGLES));
+  const triangles: Vector3[][] = [];
+  const min = new Vector3(Infinity, Infinity, Infinity);
+  const max = new Vector3(-Infinity, -Infinity, -Infinity);
+  for (const mesh of meshes) {
+    const geometry = mesh.geometry;
+    const position = geometry.getAttribute('position');
+    const index = geometry.index;
+    const count = Math.floor((index ? index.count : position.count) / 3);
+    for (let t = 0; t < count; t += stride) {
+      const triangle = [0, 1, 2].map(k => {
+        const i = index ? index.getX(t * 3 + k) : t * 3 + k;
+        const vertex = new Vector3().fromBufferAttribute(position, i)
+          .applyMatrix4(mesh.matrixWorld)
+          .applyQuaternion(alignment);
+        min.min(vertex);
+        max.max(vertex);
+        return vertex;
+      });
+      triangles.push(triangle);
+    }
+  }
+
+  const size = new Vector3().subVectors(max, min);
+  const candidates = [
+    new Vector3(0, -1, 0), new Vector3(0, 1, 0),
+    new Vector3(-1, 0, 0), new Vector3(1, 0, 0),
+    new Vector3(0, 0, -1), new Vector3(0, 0, 1)
+  ];
+  const areas = candidates.map(() => 0);
+  const edgeA = new Vector3();
+  const edgeB = new Vector3();
+  const normal = new Vector3();
+
+  for (const [a, b, c] of triangles) {
+    normal.crossVectors(edgeA.subVectors(b, a), edgeB.subVectors(c, a));
+    const doubleArea = normal.length();
+    if (doubleArea === 0) continue;
+    normal.divideScalar(doubleArea);
+
+    candidates.forEach((direction, i) => {
+      if (normal.dot(direction) < BASE_NORMAL_TOLERANCE) return;
+      // 三个顶点都需位于该方向的极值平面附近
+      const axis = direction.x !== 0 ? 'x' : direction.y !== 0 ? 'y' : 'z';
+      const extreme = direction[axis] > 0 ? max[axis] : min[axis];
+      const tolerance = size[axis] * BASE_PLANE_TOLERANCE;
+      if ([a, b, c].every(v => Math.abs(v[axis] - extreme) <= tolerance)) {
+        areas[i] += doubleArea / 2;
+      }
+    });
+  }
+
+  // 面积相同时优先保持最短轴朝上（候选顺序中 -Y 在前）
+  let best = -1;
+  areas.forEach((area, i) => {
+    if (area > 0 && (best < 0 || area > areas[best])) best = i;
+  });
+  return best < 0 ? fallback : candidates[best];
+}
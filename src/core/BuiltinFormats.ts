@@ -0,0 +1,100 @@
+import { BufferGeometry, Mesh, MeshStandardMaterial, Points, PointsMaterial } from 'three';
+import { EXPLODER_CONSTANTS } from './types';
+import { registerModelFormat } from './LoaderRegistry';
+
+/**
+ * 为只含几何体的格式创建材质（几何体带顶点颜色时使用顶点颜色）
+ * @param geometry 几何体
+ */
+export function createImportMaterial(geometry: BufferGeometry): MeshStandardMaterial {
+  const vertexColors = geometry.hasAttribute('color');
+  return new MeshStandardMaterial({
+    color: vertexColors ? 0xffffff : EXPLODER_CONSTANTS.IMPORT.COLOR,
+    vertexColors,
+    metalness: 0.1,
+    roughness: 0.6
+  });
+}
+
+/**
+ * glTF / GLB：使用已接入解码器的加载器
+ */
+registerModelFormat('gltf', {
+  extensions: ['gltf', 'glb'],
+  mimeTypes: ['model/gltf+json', 'model/gltf-binary'],
+  load(url, ctx) {
+    return ctx.gltfLoader.loadAsync(url, ctx.onProgress).then(gltf => gltf.scene);
+  }
+});
+
+// 以下格式的加载器在首次加载该格式时才通过 import() 引入，只加载 glTF 的应用不会打包它们
+
+/**
+ * OBJ：返回分组（不加载 MTL 材质）
+ */
+registerModelFormat('obj', {
+  extensions: ['obj'],
+  mimeTypes: ['model/obj'],
+  async load(url, ctx) {
+    const { OBJLoader } = await import('three/examples/jsm/loaders/OBJLoader.js');
+    return new OBJLoader(ctx.manager).loadAsync(url, ctx.onProgress);
+  }
+});
+
+/**
+ * STL：单个几何体，包装为一个网格
+ */
+registerModelFormat('stl', {
+  extensions: ['stl'],
+  mimeTypes: ['model/stl', 'model/x.stl-binary', 'model/x.stl-ascii', 'application/sla'],
+  async load(url, ctx) {
+    const { STLLoader } = await import('three/examples/jsm/loaders/STLLoader.js');
+    return new STLLoader(ctx.manager).loadAsync(url, ctx.onProgress);
+  }
+});
+
+/**
+ * PLY：有面片时包装为网格，否则作为点云
+ */
+registerModelFormat('ply', {
+  extensions: ['ply'],
+  mimeTypes: ['model/ply'],
+  async load(url, ctx) {
+    const { PLYLoader } = await import('three/examples/jsm/loaders/PLYLoader.js');
+    return new PLYLoader(ctx.manager).loadAsync(url, ctx.onProgress).then((geometry) => {
+      if (geometry.index) {
+        if (!geometry.hasAttribute('normal')) geometry.computeVertexNormals();
+        return new Mesh(geometry, createImportMaterial(geometry));
+      }
+      return new Points(geometry, new PointsMaterial({
+        color: geometry.hasAttribute('color') ? 0xffffff : EXPLODER_CONSTANTS.IMPORT.COLOR,
+        vertexColors: geometry.hasAttribute('color'),
+        size: EXPLODER_CONSTANTS.IMPORT.POINT_SIZE,
+        sizeAttenuation: false
+      }));
+    });
+  }
+});
+
+/**
+ * FBX：返回分组（包含骨骼与动画）
+ */
+registerModelFormat('fbx', {
+  extensions: ['fbx'],
+  async load(url, ctx) {
+    const { FBXLoader } = await import('three/examples/jsm/loaders/FBXLoader.js');
+    return new FBXLoader(ctx.manager).loadAsync(url, ctx.onProgress);
+  }
+});
+
+/**
+ * 3MF：返回分组（每个构建项为一个子节点）
+ */
+registerModelFormat('3mf', {
+  extensions: ['3mf'],
+  mimeTypes: ['model/3mf', 'application/vnd.ms-package.3dmanufacturing-3dmodel+xml'],
+  async load(url, ctx) {
+    const { ThreeMFLoader } = await import('three/examples/jsm/loaders/3MFLoader.js');
+    return new ThreeMFLoader(ctx.manager).loadAsync(url, ctx.onProgress);
+  }
+});
@@ -0,0 +1,348 @@
+import { Object3D, Vector3, Box3, Mesh } from 'three';
+import { ExplosionMode, ExplosionModeContext, EXPLODER_CONSTANTS } from './types';
+import { registerExplosionMode, getBaseDistance } from './ModeRegistry';
+import { CollisionBody, separateBodies } from './Collision';
+import { buildNestedLayout, NestedLayout } from './Hierarchy';
+import { clamp } from './utils';
+
+/**
+ * 读取部件爆炸方向（缺失时向上）
+ * @private
+ */
+function getDirection(mesh: Object3D, ctx: ExplosionModeContext): Vector3 {
+  return ctx.directions.get(mesh)?.clone() ?? new Vector3(0, 1, 0);
+}
+
+/**
+ * 读取部件静止时的几何中心（静止包围盒中心，缺失时退回节点原点）
+ * 许多 CAD 导出的部件原点都在 (0,0,0)，节点原点无法代表部件位置
+ * @private
+ */
+function getRestCenter(mesh: Object3D, ctx: ExplosionModeContext): Vector3 | null {
+  const box = ctx.restBoxes.get(mesh);
+  if (box && !box.isEmpty()) return box.getCenter(new Vector3());
+  return ctx.originalPositions.get(mesh)?.clone() ?? null;
+}
+
+/**
+ * 径向爆炸：基于中心点的散度位移
+ */
+registerExplosionMode(ExplosionMode.RADIAL, {
+  label: '径向模式',
+  icon: 'M12 3v3m0 12v3M3 12h3m12 0h3M5.6 5.6l2.1 2.1m8.6 8.6l2.1 2.1M5.6 18.4l2.1-2.1m8.6-8.6l2.1-2.1',
+  computeOffset(mesh, progress, ctx) {
+    return getDirection(mesh, ctx).multiplyScalar(getBaseDistance(ctx, progress));
+  }
+});
+
+/**
+ * 归一化径向爆炸：按距离中心的比例拉开
+ */
+registerExplosionMode(ExplosionMode.NORMALIZED_RADIAL, {
+  label: '归一化径向',
+  icon: 'M21 3h-6M3 21h6M3 3v6M21 21v-6M3 3l7.5 7.5M21 21l-7.5-7.5',
+  computeOffset(mesh, progress, ctx) {
+    const restCenter = getRestCenter(mesh, ctx);
+    if (!restCenter) return new Vector3();
+    // 整体像气球一样膨胀，位移量与模型原始尺寸成比例，但受 maxDistance 约束
+    return restCenter.sub(ctx.center).multiplyScalar(ctx.maxDistance * progress * ctx.multiplier);
+  }
+});
+
+/**
+ * 轴向分层爆炸：沿特定轴线按投影距离偏移
+ */
+registerExplosionMode(ExplosionMode.AXIAL, {
+  label: '轴向模式',
+  icon: 'M7 7h10M7 12h10M7 17h10',
+  usesAxis: true,
+  precompute(meshes, ctx) {
+    // 计算所有部件在当前轴向上的投影距离，并进行归一化处理
+    const axialDir = ctx.axialVector.clone().normalize();
+
+    // 1. 计算模型在当前轴向上的包围盒范围（使用静止包围盒，避免受当前爆炸状态影响）
+    const box = new Box3();
+    ctx.restBoxes.forEach(restBox => box.union(restBox));
+    const min = box.min.dot(axialDir);
+    const max = box.max.dot(axialDir);
+    const axialSize = Math.abs(max - min);
+
+    // 2. 归一化投影距离
+    // 如果 axialSize 太小，说明模型在轴向上几乎没有厚度，归一化无意义
+    const scale = axialSize > 0.0001 ? 1 / axialSize : 1;
+
+    const distances = new Map<Object3D, number>();
+    for (const mesh of meshes) {
+      const restCenter = getRestCenter(mesh, ctx);
+      if (restCenter) {
+        // 计算部件相对于模型中心的轴向投影
+        const dist = restCenter.sub(ctx.center).dot(axialDir);
+        // 归一化：将投影距离映射到 -0.5 到 0.5 之间（相对于中心）
+        // 这样不同轴向下的位移量将与该轴向的总尺寸解耦
+        distances.set(mesh, dist * scale);
+      }
+    }
+    ctx.state.distances = distances;
+  },
+  computeOffset(mesh, progress, ctx) {
+    const axialDistance: number = ctx.state.distances?.get(mesh) || 0;
+    // 这里 axialDistance 已经是归一化到 -0.5 到 0.5 的，所以乘以基础距离比较合理
+    return ctx.axialVector.clone().normalize().multiplyScalar(axialDistance * getBaseDistance(ctx, progress));
+  }
+});
+
+/**
+ * 柱面爆炸：以轴向向量为圆柱轴，按部件到轴线的垂直偏移向外位移，保持轴向高度不变
+ */
+registerExplosionMode(ExplosionMode.CYLINDRICAL, {
+  label: '柱面模式',
+  icon: 'M12 3v18M5 7l-2 5 2 5M19 7l2 5-2 5M7 12h3M14 12h3',
+  usesAxis: true,
+  computeOffset(mesh, progress, ctx) {
+    const restCenter = getRestCenter(mesh, ctx);
+    if (!restCenter) return new Vector3();
+
+    // 去掉沿轴向的分量，得到相对轴线的垂直偏移
+    const axialDir = ctx.axialVector.clone().normalize();
+    const relativePos = restCenter.sub(ctx.center);
+    const perpendicular = relativePos.sub(axialDir.multiplyScalar(relativePos.dot(axialDir)));
+
+    // 位于轴线上的部件（如转轴）保持不动
+    if (perpendicular.length() < EXPLODER_CONSTANTS.DIRECTION.MIN_LENGTH) {
+      return new Vector3();
+    }
+    // 与归一化径向一致：位移量与垂直偏移成比例
+    return perpendicular.multiplyScalar(ctx.maxDistance * progress * ctx.multiplier);
+  }
+});
+
+/**
+ * 平面剖分爆炸：以过模型中心、法线为轴向向量的平面将模型分成两半，各部件沿法线远离所在一侧
+ * 两半作为整体分开，跨越平面的部件按 straddlePolicy 归类
+ */
+registerExplosionMode(ExplosionMode.PLANAR_SPLIT, {
+  label: '平面剖分',
+  icon: 'M12 3v18M4 8h5v8H4zM15 8h5v8h-5z',
+  usesAxis: true,
+  precompute(meshes, ctx) {
+    // 计算各部件静止包围盒在平面法线上的投影范围（相对剖分平面）
+    const normal = ctx.axialVector.clone().normalize();
+    const planeOffset = ctx.center.dot(normal);
+    const extents = new Map<Object3D, { min: number; max: number }>();
+
+    for (const mesh of meshes) {
+      const box = ctx.restBoxes.get(mesh);
+      if (box) {
+        const boxCenter = box.getCenter(new Vector3()).dot(normal) - planeOffset;
+        const half = box.getSize(new Vector3()).multiplyScalar(0.5);
+        const halfExtent = Math.abs(half.x * normal.x) + Math.abs(half.y * normal.y) + Math.abs(half.z * normal.z);
+        extents.set(mesh, { min: boxCenter - halfExtent, max: boxCenter + halfExtent });
+      } else {
+        const originalPosition = ctx.originalPositions.get(mesh);
+        if (!originalPosition) continue;
+        const dist = originalPosition.dot(normal) - planeOffset;
+        extents.set(mesh, { min: dist, max: dist });
+      }
+    }
+    ctx.state.extents = extents;
+  },
+  computeOffset(mesh, progress, ctx) {
+    const extent: { min: number; max: number } | undefined = ctx.state.extents?.get(mesh);
+    if (!extent) return new Vector3();
+
+    const tolerance = ctx.radius * EXPLODER_CONSTANTS.PLANAR_SPLIT.STRADDLE_TOLERANCE;
+    let side: number;
+    if (extent.min >= -tolerance) {
+      side = 1;
+    } else if (extent.max <= tolerance) {
+      side = -1;
+    } else {
+      // 跨越剖分平面的部件
+      switch (ctx.straddlePolicy) {
+        case 'stay': side = 0; break;
+        case 'positive': side = 1; break;
+        case 'negative': side = -1; break;
+        default: side = extent.min + extent.max >= 0 ? 1 : -1;
+      }
+    }
+
+    // 两半各移动一半距离，总间隙等于基础距离
+    return ctx.axialVector.clone().normalize().multiplyScalar(side * getBaseDistance(ctx, progress) * 0.5);
+  }
+});
+
+/**
+ * 力场式爆炸：模拟从中心向外的势场衰减效果
+ */
+registerExplosionMode(ExplosionMode.FORCE_FIELD, {
+  label: '力场式',
+  icon: 'M12 12m-9 0a9 9 0 1 0 18 0a9 9 0 1 0 -18 0 M12 12m-5 0a5 5 0 1 0 10 0a5 5 0 1 0 -10 0',
+  params: {
+    falloff: { type: 'number', label: '衰减指数', default: 1, min: 0, max: 3, step: 0.1 },
+    offset: { type: 'number', label: '中心偏移', default: EXPLODER_CONSTANTS.WEIGHTS.FORCE_FIELD_OFFSET, min: 0.05, max: 2, step: 0.05 }
+  },
+  computeOffset(mesh, progress, ctx) {
+    const restCenter = getRestCenter(mesh, ctx);
+    if (!restCenter) return new Vector3();
+    const rNorm = restCenter.distanceTo(ctx.center) / ctx.radius;
+    // 模拟力场强度：随距离按衰减指数减弱（指数为 0 时各处强度相同）
+    const forceMagnitude = 1.0 / Math.pow(rNorm + (ctx.params.offset as number), ctx.params.falloff as number);
+    return getDirection(mesh, ctx).multiplyScalar(getBaseDistance(ctx, progress) * forceMagnitude);
+  }
+});
+
+/**
+ * 尺寸加权爆炸：位移距离与零件体积正相关
+ */
+registerExplosionMode(ExplosionMode.SIZE_WEIGHTED, {
+  label: '尺寸加权',
+  icon: 'M3 6h18M7 12h10M10 18h4',
+  params: {
+    invert: { type: 'boolean', label: '小零件位移更远', default: false },
+    base: { type: 'number', label: '基础权重', default: EXPLODER_CONSTANTS.WEIGHTS.BASE, min: 0, max: 2, step: 0.05 },
+    scale: { type: 'number', label: '体积权重', default: EXPLODER_CONSTANTS.WEIGHTS.SCALE, min: 0, max: 3, step: 0.05 }
+  },
+  precompute(meshes, ctx) {
+    let maxVolume = 0;
+    const volumes = new Map<Object3D, number>();
+
+    for (const mesh of meshes) {
+      const size = new Vector3();
+      if (mesh instanceof Mesh) {
+        const geometry = mesh.geometry;
+        if (!geometry.boundingBox) {
+          geometry.computeBoundingBox();
+        }
+        if (!geometry.boundingBox) continue;
+        geometry.boundingBox.getSize(size);
+      } else {
+        // 分组单位：使用整体静止包围盒
+        const restBox = ctx.restBoxes.get(mesh);
+        if (!restBox) continue;
+        restBox.getSize(size);
+      }
+      // 计算包围盒体积
+      const volume = size.x * size.y * size.z;
+      volumes.set(mesh, volume);
+      maxVolume = Math.max(maxVolume, volume);
+    }
+
+    // 归一化权重：默认体积越大，位移权重越大（符合“尺寸加权”直觉）
+    // 开启 invert 后反过来，大零件留在原位附近，小零件被推得更远
+    const scale = maxVolume > 0 ? 1 / maxVolume : 1;
+    const invert = ctx.params.invert as boolean;
+    const weights = new Map<Object3D, number>();
+    for (const [mesh, vol] of volumes) {
+      const ratio = vol * scale;
+      // 基础位移权重，加上体积加权部分
+      weights.set(mesh, (ctx.params.base as number) + (invert ? 1 - ratio : ratio) * (ctx.params.scale as number));
+    }
+    ctx.state.weights = weights;
+  },
+  computeOffset(mesh, progress, ctx) {
+    const weight: number = ctx.state.weights?.get(mesh) || 1.0;
+    return getDirection(mesh, ctx).multiplyScalar(getBaseDistance(ctx, progress) * weight);
+  }
+});
+
+/**
+ * 装配树嵌套爆炸：每个分组绕自身中心展开子节点，分组整体再绕父节点中心展开
+ * 每一层占用一段进度：外层先分开，内层随后展开，子装配体保持可读的整体
+ */
+registerExplosionMode(ExplosionMode.HIERARCHICAL, {
+  label: '装配树级',
+  icon: 'M3 3h7v7H3zM14 3h7v7h-7zM14 14h7v7h-7zM3 14h7v7H3z',
+  params: {
+    depthFalloff: { type: 'number', label: '层级衰减', default: 1, min: 0.1, max: 2, step: 0.05 },
+    sequential: { type: 'boolean', label: '逐层展开', default: true }
+  },
+  precompute(meshes, ctx) {
+    ctx.state.layout = buildNestedLayout(meshes, ctx.model, ctx.restBoxes, ctx.directions);
+  },
+  computeOffset(mesh, progress, ctx) {
+    const layout: NestedLayout = ctx.state.layout;
+    const steps = layout?.steps.get(mesh);
+    const offset = new Vector3();
+    if (!steps) return offset;
+
+    const depthFalloff = ctx.params.depthFalloff as number;
+    for (const step of steps) {
+      // 逐层展开时第 level 层占用 [level / levels, (level + 1) / levels] 的进度区间，否则各层同时展开
+      const levelProgress = ctx.params.sequential ? clamp(progress * layout.levels - step.level, 0, 1) : progress;
+      if (levelProgress <= 0) break;
+      // 深层的位移按层级衰减系数缩放（小于 1 时内层展开得更紧凑）
+      const depthScale = Math.pow(depthFalloff, step.level);
+      offset.add(step.direction.clone().multiplyScalar(step.scale * depthScale * ctx.maxDistance * levelProgress * ctx.multiplier));
+    }
+    return offset;
+  }
+});
+
+/**
+ * 防碰撞爆炸：按完全爆炸时的分离距离线性插值
+ * 部件覆盖的方向与距离缩放参与分离计算，避免在分离之后重新引入重叠；
+ * 分离按当前系数进行，任何系数下完全爆炸时都不会重叠
+ */
+registerExplosionMode(ExplosionMode.COLLISION_AWARE, {
+  label: '防碰撞',
+  icon: 'M4 4h7v7H4zM13 13h7v7h-7zM11 11l2 2',
+  handlesOverrides: true,
+  precompute(meshes, ctx) {
+    ctx.state.meshes = meshes.filter(mesh => ctx.restBoxes.has(mesh));
+    ctx.state.layout = null;
+    ctx.state.warned = false;
+  },
+  computeOffset(mesh, progress, ctx) {
+    const layout = getCollisionLayout(ctx);
+    const entry = layout.get(mesh);
+    if (!entry) return getDirection(mesh, ctx).multiplyScalar(getBaseDistance(ctx, progress));
+    return entry.direction.clone().multiplyScalar(entry.distance * progress);
+  }
+});
+
+/**
+ * 计算（或读取缓存的）当前系数下的防碰撞分离布局
+ * 只缓存最近一次系数的布局，部件或配置变化后由 precompute 清空
+ * @private
+ */
+function getCollisionLayout(ctx: ExplosionModeContext): Map<Object3D, { direction: Vector3; distance: number }> {
+  if (ctx.state.layout && ctx.state.layoutMultiplier === ctx.multiplier) {
+    return ctx.state.layout;
+  }
+
+  const meshes: Object3D[] = ctx.state.meshes ?? [];
+  const fullDistance = ctx.radius * ctx.maxDistance * ctx.multiplier;
+  const bodies: CollisionBody[] = [];
+  const distances: number[] = [];
+
+  for (const mesh of meshes) {
+    const override = ctx.overrides.get(mesh);
+    const locked = !!override?.locked;
+    bodies.push({
+      box: ctx.restBoxes.get(mesh)!,
+      direction: override?.direction?.clone().normalize() ?? getDirection(mesh, ctx),
+      fixed: locked
+    });
+    distances.push(locked ? 0 : fullDistance * (override?.distanceScale ?? 1));
+  }
+
+  const { distances: separated, separated: complete } = separateBodies(
+    bodies,
+    distances,
+    ctx.center,
+    ctx.radius * EXPLODER_CONSTANTS.COLLISION.TOLERANCE,
+    EXPLODER_CONSTANTS.COLLISION.MAX_ITERATIONS
+  );
+
+  // 同一布局配置只提示一次，避免拖动系数时重复输出
+  if (!complete && !ctx.state.warned) {
+    ctx.state.warned = true;
+    console.warn(`GLTFExploder: 防碰撞模式在 ${EXPLODER_CONSTANTS.COLLISION.MAX_ITERATIONS} 次迭代后仍有部件重叠（可能是锁定的部件互相重叠），部分部件未完全分离`);
+  }
+
+  const result = new Map<Object3D, { direction: Vector3; distance: number }>();
+  meshes.forEach((mesh, i) => result.set(mesh, { direction: bodies[i].direction, distance: separated[i] }));
+  ctx.state.layout = result;
+  ctx.state.layoutMultiplier = ctx.multiplier;
+  return result;
+}
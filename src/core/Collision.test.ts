@@ -0,0 +1,157 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { Box3, Vector3 } from 'three';
+import { CollisionBody, findOverlappingPairs, hasOverlaps, separateBodies } from './Collision';
+import { ExplosionEngine } from './Engine';
+import { ExplosionMode } from './types';
+import { createOverlappingBoxes, getPart, maxOverlap, worldPosition } from '../test/fixtures';
+
+/**
+ * 以中心点与边长创建包围盒
+ */
+function boxAt(x: number, y: number, z: number, size = 1): Box3 {
+  return new Box3().setFromCenterAndSize(new Vector3(x, y, z), new Vector3(size, size, size));
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('findOverlappingPairs', () => {
+  it('只返回超出容差的重叠部件对', () => {
+    const boxes = [boxAt(0, 0, 0), boxAt(0.5, 0, 0), boxAt(5, 0, 0), boxAt(1.001, 0, 0)];
+    const offsets = boxes.map(() => new Vector3());
+
+    const pairs = findOverlappingPairs(boxes, offsets, 0.01).map(([i, j]) => [i, j].sort());
+    expect(pairs).toHaveLength(2);
+    expect(pairs).toContainEqual([0, 1]);
+    expect(pairs).toContainEqual([1, 3]);
+  });
+
+  it('计入各部件的当前位移', () => {
+    const boxes = [boxAt(0, 0, 0), boxAt(0.5, 0, 0)];
+    expect(hasOverlaps(boxes, [new Vector3(), new Vector3()], 0)).toBe(true);
+    expect(hasOverlaps(boxes, [new Vector3(), new Vector3(0, 2, 0)], 0)).toBe(false);
+  });
+});
+
+describe('separateBodies', () => {
+  it('沿各自方向外推靠外的一方，直到互不重叠', () => {
+    const bodies: CollisionBody[] = [
+      { box: boxAt(-0.25, 0, 0), direction: new Vector3(-1, 0, 0), fixed: false },
+      { box: boxAt(0.25, 0, 0), direction: new Vector3(1, 0, 0), fixed: false }
+    ];
+
+    const { distances, separated } = separateBodies(bodies, [0, 0], new Vector3(), 0, 50);
+    expect(separated).toBe(true);
+    const offsets = bodies.map((body, i) => body.direction.clone().multiplyScalar(distances[i]));
+    expect(hasOverlaps(bodies.map(body => body.box), offsets, 0)).toBe(false);
+    // 只向外推动，距离不会减小
+    distances.forEach(distance => expect(distance).toBeGreaterThanOrEqual(0));
+  });
+
+  it('固定的部件保持不动，由另一方让开', () => {
+    const bodies: CollisionBody[] = [
+      { box: boxAt(0, 0, 0), direction: new Vector3(1, 0, 0), fixed: true },
+      { box: boxAt(0.5, 0, 0), direction: new Vector3(0, 1, 0), fixed: false }
+    ];
+
+    const { distances, separated } = separateBodies(bodies, [0, 0], new Vector3(), 0, 50);
+    expect(separated).toBe(true);
+    expect(distances[0]).toBe(0);
+    expect(distances[1]).toBeGreaterThan(0);
+  });
+
+  it('无法分离时报告失败', () => {
+    // 两个固定部件互相重叠，任何迭代都无法消除
+    const fixed: CollisionBody[] = [
+      { box: boxAt(0, 0, 0), direction: new Vector3(1, 0, 0), fixed: true },
+      { box: boxAt(0.5, 0, 0), direction: new Vector3(1, 0, 0), fixed: true }
+    ];
+    expect(separateBodies(fixed, [0, 0], new Vector3(), 0, 50).separated).toBe(false);
+
+    // 迭代次数为 0 时保留初始重叠
+    const bodies: CollisionBody[] = [
+      { box: boxAt(0, 0, 0), direction: new Vector3(-1, 0, 0), fixed: false },
+      { box: boxAt(0.5, 0, 0), direction: new Vector3(1, 0, 0), fixed: false }
+    ];
+    const exhausted = separateBodies(bodies, [0, 0], new Vector3(), 0, 0);
+    expect(exhausted.separated).toBe(false);
+    expect(exhausted.distances).toEqual([0, 0]);
+  });
+});
+
+describe('防碰撞模式', () => {
+  it.each([0.5, 1, 2])('爆炸系数为 %s 时完全爆炸后部件包围盒互不重叠', (multiplier) => {
+    const model = createOverlappingBoxes();
+    const engine = new ExplosionEngine(model, { mode: ExplosionMode.COLLISION_AWARE, adaptModel: false });
+    const tolerance = engine.getModelRadius() * 0.01;
+
+    expect(maxOverlap(model)).toBeGreaterThan(tolerance);
+    engine.setMultiplier(multiplier);
+    engine.setProgress(1);
+    expect(maxOverlap(model)).toBeLessThanOrEqual(tolerance);
+    engine.dispose();
+  });
+
+  it('距离缩放覆盖参与分离，不会重新引入重叠', () => {
+    const model = createOverlappingBoxes();
+    const engine = new ExplosionEngine(model, { mode: ExplosionMode.COLLISION_AWARE, adaptModel: false });
+    const tolerance = engine.getModelRadius() * 0.01;
+
+    engine.setPartOverride('Box1', { distanceScale: 0.05 });
+    engine.setProgress(1);
+    expect(maxOverlap(model)).toBeLessThanOrEqual(tolerance);
+    engine.dispose();
+  });
+
+  it('位移随进度线性插值', () => {
+    const model = createOverlappingBoxes();
+    const engine = new ExplosionEngine(model, { mode: ExplosionMode.COLLISION_AWARE, adaptModel: false });
+    const box = getPart(model, 'Box2');
+    const rest = worldPosition(box);
+
+    engine.setProgress(1);
+    const full = worldPosition(box).sub(rest);
+    engine.setProgress(0.5);
+    const half = worldPosition(box).sub(rest);
+
+    expect(half.distanceTo(full.multiplyScalar(0.5))).toBeCloseTo(0, 6);
+    engine.dispose();
+  });
+
+  it('锁定的部件互相重叠时输出警告', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const engine = new ExplosionEngine(createOverlappingBoxes(), { mode: ExplosionMode.COLLISION_AWARE, adaptModel: false });
+
+    engine.setPartOverride(/^Box[01]$/, { locked: true });
+    engine.setProgress(1);
+    engine.setMultiplier(2);
+    expect(warn).toHaveBeenCalledTimes(1);
+    engine.dispose();
+  });
+});
+
+describe('autoFitMultiplier', () => {
+  it('无法分离时返回 null 并保留当前系数', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const engine = new ExplosionEngine(createOverlappingBoxes(), { adaptModel: false });
+    engine.setPartOverride(() => true, { locked: true });
+
+    const multiplier = engine.getMultiplier();
+    expect(engine.autoFitMultiplier()).toBeNull();
+    expect(engine.getMultiplier()).toBe(multiplier);
+    engine.dispose();
+  });
+
+  it('返回能分离部件的系数', () => {
+    const model = createOverlappingBoxes();
+    const engine = new ExplosionEngine(model, { adaptModel: false });
+
+    const fitted = engine.autoFitMultiplier();
+    expect(fitted).not.toBeNull();
+    expect(engine.getMultiplier()).toBe(fitted);
+    engine.setProgress(1);
+    expect(maxOverlap(model)).toBeLessThanOrEqual(engine.getModelRadius() * 0.01);
+    engine.dispose();
+  });
+});
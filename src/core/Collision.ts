@@ -0,0 +1,145 @@
+import { Box3, Vector3 } from 'three';
+
+/**
+ * 参与碰撞分离的部件
+ */
+export interface CollisionBody {
+  /** 静止状态下的世界包围盒 */
+  box: Box3;
+  /** 爆炸方向（已归一化） */
+  direction: Vector3;
+  /** 是否固定不动（锁定的部件） */
+  fixed: boolean;
+}
+
+/**
+ * 碰撞分离结果
+ */
+export interface SeparationResult {
+  /** 分离后的位移距离（沿各自方向） */
+  distances: number[];
+  /** 是否已消除全部重叠（达到最大迭代次数或重叠双方均固定时为 false） */
+  separated: boolean;
+}
+
+/**
+ * 计算平移后的包围盒重叠深度（三个轴向上的最小重叠量）
+ * @returns 重叠深度与所在轴，不重叠时返回 null
+ */
+function getOverlap(
+  a: Box3,
+  offsetA: Vector3,
+  b: Box3,
+  offsetB: Vector3,
+  margin: number
+): { depth: number; axis: 'x' | 'y' | 'z' } | null {
+  let minDepth = Infinity;
+  let minAxis: 'x' | 'y' | 'z' = 'x';
+
+  for (const axis of ['x', 'y', 'z'] as const) {
+    const overlap = Math.min(a.max[axis] + offsetA[axis], b.max[axis] + offsetB[axis]) -
+      Math.max(a.min[axis] + offsetA[axis], b.min[axis] + offsetB[axis]);
+    // 小于容差的接触视为不重叠
+    if (overlap <= margin) return null;
+    if (overlap < minDepth) {
+      minDepth = overlap;
+      minAxis = axis;
+    }
+  }
+
+  return { depth: minDepth, axis: minAxis };
+}
+
+/**
+ * 沿 X 轴排序扫描，找出所有包围盒重叠的部件对
+ * @param boxes 静止包围盒
+ * @param offsets 各部件当前位移
+ * @param margin 接触容差
+ * @returns 重叠部件对 [i, j, 深度, 轴]
+ */
+export function findOverlappingPairs(
+  boxes: Box3[],
+  offsets: Vector3[],
+  margin: number
+): [number, number, number, 'x' | 'y' | 'z'][] {
+  const order = boxes.map((_, i) => i);
+  order.sort((i, j) => (boxes[i].min.x + offsets[i].x) - (boxes[j].min.x + offsets[j].x));
+
+  const pairs: [number, number, number, 'x' | 'y' | 'z'][] = [];
+  for (let a = 0; a < order.length; a++) {
+    const i = order[a];
+    const maxX = boxes[i].max.x + offsets[i].x;
+    for (let b = a + 1; b < order.length; b++) {
+      const j = order[b];
+      // 后续部件的 min.x 已超出当前部件范围，提前结束
+      if (boxes[j].min.x + offsets[j].x - maxX >= -margin) break;
+      const overlap = getOverlap(boxes[i], offsets[i], boxes[j], offsets[j], margin);
+      if (overlap) {
+        pairs.push([i, j, overlap.depth, overlap.axis]);
+      }
+    }
+  }
+  return pairs;
+}
+
+/**
+ * 迭代分离部件：重叠的部件对中，离中心更远（沿方向投影更大）的一方沿自身爆炸方向继续外推
+ * 只向外推动，保留爆炸的整体观感
+ *
+ * @param bodies 部件
+ * @param distances 初始位移距离（沿各自方向）
+ * @param center 爆炸中心
+ * @param margin 接触容差
+ * @param maxIterations 最大迭代次数
+ * @returns 分离后的位移距离，以及是否已消除全部重叠
+ */
+export function separateBodies(
+  bodies: CollisionBody[],
+  distances: number[],
+  center: Vector3,
+  margin: number,
+  maxIterations: number
+): SeparationResult {
+  const result = distances.slice();
+  const boxes = bodies.map(body => body.box);
+  const centers = boxes.map(box => box.getCenter(new Vector3()).sub(center));
+  const offsets = bodies.map((body, i) => body.direction.clone().multiplyScalar(result[i]));
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    const pairs = findOverlappingPairs(boxes, offsets, margin);
+    if (pairs.length === 0) {
+      return { distances: result, separated: true };
+    }
+
+    for (const [i, j, depth, axis] of pairs) {
+      // 选出需要外推的一方：优先移动未锁定、且更靠外的部件
+      let mover: number;
+      if (bodies[i].fixed && bodies[j].fixed) continue;
+      if (bodies[i].fixed) mover = j;
+      else if (bodies[j].fixed) mover = i;
+      else {
+        const outerI = centers[i].dot(bodies[i].direction) + result[i];
+        const outerJ = centers[j].dot(bodies[j].direction) + result[j];
+        mover = outerI > outerJ ? i : j;
+      }
+
+      // 方向在重叠轴上的分量越小，需要走的距离越长（下限避免过大步长）
+      const component = Math.max(Math.abs(bodies[mover].direction[axis]), 0.2);
+      result[mover] += depth / component;
+      offsets[mover].copy(bodies[mover].direction).multiplyScalar(result[mover]);
+    }
+  }
+
+  // 迭代耗尽：最后一轮外推后可能恰好分离，需再检查一次
+  return { distances: result, separated: !hasOverlaps(boxes, offsets, margin) };
+}
+
+/**
+ * 检查一组平移后的包围盒是否存在重叠
+ * @param boxes 静止包围盒
+ * @param offsets 各部件位移
+ * @param margin 接触容差
+ */
+export function hasOverlaps(boxes: Box3[], offsets: Vector3[], margin: number): boolean {
+  return findOverlappingPairs(boxes, offsets, margin).length > 0;
+}
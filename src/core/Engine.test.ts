@@ -0,0 +1,230 @@
+import { describe, it, expect } from 'vitest';
+import { Group, Matrix4, Object3D, Quaternion, Vector3 } from 'three';
+import { ExplosionEngine } from './Engine';
+import { ExplosionMode } from './types';
+import { addBox, createAssembly, expectMatrixClose, getPart, localMatrix, worldPosition, PART_NAMES } from '../test/fixtures';
+
+/**
+ * 创建带嵌套部件的模型：盖板网格下挂着把手网格，两者都会移动
+ */
+function createNestedAssembly(): Group {
+  const root = new Group();
+  const cover = addBox(root, 'Cover', [2, 0.5, 2], [0, 2, 0]);
+  addBox(cover, 'Handle', [0.5, 0.5, 0.5], [0.5, 1, 0]);
+  addBox(root, 'Frame', [1, 1, 1], [3, -2, 0]);
+  root.updateMatrixWorld(true);
+  return root;
+}
+
+/**
+ * 以 setProgress 的实际放置结果校验 computeTransforms，并确认计算本身不修改模型
+ */
+function expectTransformsMatchPlacement(model: Object3D, engine: ExplosionEngine, progress: number): void {
+  const parts: Object3D[] = [];
+  model.traverse(object => {
+    if (object !== model) parts.push(object);
+  });
+  const before = parts.map(localMatrix);
+
+  const transforms = engine.computeTransforms(progress);
+  parts.forEach((part, i) => expectMatrixClose(localMatrix(part), before[i]));
+
+  engine.setProgress(progress);
+  transforms.forEach((matrix, object) => expectMatrixClose(localMatrix(object), matrix));
+}
+
+describe('部件覆盖', () => {
+  it('锁定的部件停留在原位', () => {
+    const model = createAssembly();
+    const engine = new ExplosionEngine(model, { adaptModel: false });
+    const rest = worldPosition(getPart(model, 'Lid'));
+
+    engine.setPartOverride('Lid', { locked: true });
+    engine.setProgress(1);
+    expect(worldPosition(getPart(model, 'Lid')).distanceTo(rest)).toBeCloseTo(0, 6);
+    engine.dispose();
+  });
+
+  it('排除的部件不再受爆炸器控制', () => {
+    const model = createAssembly();
+    const engine = new ExplosionEngine(model, { adaptModel: false });
+    const lid = getPart(model, 'Lid');
+
+    engine.setPartOverride('Lid', { excluded: true });
+    lid.position.set(10, 10, 10);
+    engine.setProgress(1);
+    expect(lid.position.toArray()).toEqual([10, 10, 10]);
+    engine.dispose();
+  });
+
+  it('自定义方向保持位移量，距离缩放按倍率放大', () => {
+    const reference = createAssembly();
+    const referenceEngine = new ExplosionEngine(reference, { adaptModel: false });
+    const referenceRest = worldPosition(getPart(reference, 'Base'));
+    referenceEngine.setProgress(1);
+    const referenceDistance = worldPosition(getPart(reference, 'Base')).distanceTo(referenceRest);
+
+    const model = createAssembly();
+    const engine = new ExplosionEngine(model, { adaptModel: false });
+    const rest = worldPosition(getPart(model, 'Base'));
+    engine.setPartOverride('Base', { direction: new Vector3(0, 0, 2), distanceScale: 2 });
+    engine.setProgress(1);
+
+    const offset = worldPosition(getPart(model, 'Base')).sub(rest);
+    expect(offset.x).toBeCloseTo(0, 6);
+    expect(offset.y).toBeCloseTo(0, 6);
+    expect(offset.z).toBeCloseTo(referenceDistance * 2, 6);
+
+    referenceEngine.dispose();
+    engine.dispose();
+  });
+
+  it('移除覆盖后部件恢复默认位移', () => {
+    const model = createAssembly();
+    const engine = new ExplosionEngine(model, { adaptModel: false });
+    engine.setProgress(1);
+    const exploded = worldPosition(getPart(model, 'Lid'));
+
+    engine.setPartOverride('Lid', { locked: true });
+    engine.removePartOverride('Lid');
+    expect(worldPosition(getPart(model, 'Lid')).distanceTo(exploded)).toBeCloseTo(0, 6);
+    engine.dispose();
+  });
+
+  it('带 g 标志的正则选择器对每个部件都生效', () => {
+    const model = createAssembly();
+    const engine = new ExplosionEngine(model, { adaptModel: false });
+    const rest = PART_NAMES.map(name => worldPosition(getPart(model, name)));
+
+    engine.setPartOverride(/Screw/g, { locked: true });
+    engine.setProgress(1);
+    expect(worldPosition(getPart(model, 'ScrewLeft')).distanceTo(rest[2])).toBeCloseTo(0, 6);
+    expect(worldPosition(getPart(model, 'ScrewRight')).distanceTo(rest[3])).toBeCloseTo(0, 6);
+    engine.dispose();
+  });
+});
+
+describe('部件旋转', () => {
+  it('旋转角度随进度线性变化', () => {
+    const model = createAssembly();
+    const engine = new ExplosionEngine(model, {
+      adaptModel: false,
+      rotation: { type: 'spin', angle: Math.PI / 2, axis: new Vector3(0, 1, 0) }
+    });
+    const lid = getPart(model, 'Lid');
+
+    engine.setProgress(0.5);
+    expect(lid.quaternion.angleTo(new Quaternion())).toBeCloseTo(Math.PI / 4, 6);
+    engine.setProgress(1);
+    expect(lid.quaternion.angleTo(new Quaternion())).toBeCloseTo(Math.PI / 2, 6);
+    engine.dispose();
+  });
+
+  it('部件级旋转配置为 null 时该部件不旋转', () => {
+    const model = createAssembly();
+    const engine = new ExplosionEngine(model, { adaptModel: false, rotation: { type: 'tilt', angle: 0.5 } });
+
+    engine.setPartOverride('Lid', { rotation: null });
+    engine.setProgress(1);
+    expect(getPart(model, 'Lid').quaternion.angleTo(new Quaternion())).toBeCloseTo(0, 6);
+    expect(getPart(model, 'ScrewLeft').quaternion.angleTo(new Quaternion())).toBeCloseTo(0.5, 6);
+    engine.dispose();
+  });
+
+  it('reset 将所有部件恢复到原始位置与朝向', () => {
+    const model = createAssembly();
+    const rest = new Map(PART_NAMES.map(name => [name, worldPosition(getPart(model, name))]));
+    const engine = new ExplosionEngine(model, { adaptModel: false, rotation: { type: 'tilt', angle: 0.5 } });
+
+    engine.setProgress(1);
+    engine.reset();
+
+    expect(engine.getProgress()).toBe(0);
+    PART_NAMES.forEach(name => {
+      const part = getPart(model, name);
+      expect(worldPosition(part).distanceTo(rest.get(name)!)).toBeCloseTo(0, 6);
+      expect(part.quaternion.angleTo(new Quaternion())).toBeCloseTo(0, 6);
+    });
+    engine.dispose();
+  });
+});
+
+describe('无损还原', () => {
+  it('dispose 还原自适应缩放、朝向与所有部件的宿主变换', () => {
+    const model = createAssembly();
+    model.position.set(3, 0, 0);
+    model.updateMatrix();
+    const modelRest = localMatrix(model);
+    const rest = new Map(PART_NAMES.map(name => [name, localMatrix(getPart(model, name))]));
+    const engine = new ExplosionEngine(model, { adaptModel: true, upAxis: 'z' });
+
+    engine.setProgress(1);
+    engine.dispose();
+
+    expectMatrixClose(localMatrix(model), modelRest);
+    PART_NAMES.forEach(name => expectMatrixClose(localMatrix(getPart(model, name)), rest.get(name)!));
+  });
+
+  it('setModel 切换模型前还原旧模型', () => {
+    const previous = createAssembly();
+    const rest = new Map(PART_NAMES.map(name => [name, localMatrix(getPart(previous, name))]));
+    const engine = new ExplosionEngine(previous, { adaptModel: true });
+
+    engine.setProgress(1);
+    engine.setModel(createAssembly());
+
+    expectMatrixClose(localMatrix(previous), new Matrix4());
+    PART_NAMES.forEach(name => expectMatrixClose(localMatrix(getPart(previous, name)), rest.get(name)!));
+    engine.dispose();
+  });
+});
+
+describe('ExplosionEngine.computeTransforms', () => {
+  it.each(Object.values(ExplosionMode))('%s 模式下与实际放置结果一致且不修改模型', (mode) => {
+    const model = createAssembly();
+    const engine = new ExplosionEngine(model, { mode, adaptModel: false });
+    const rest = new Map(PART_NAMES.map(name => [name, localMatrix(getPart(model, name))]));
+
+    // 进度 0 时为静止变换
+    const idle = engine.computeTransforms(0);
+    PART_NAMES.forEach(name => expectMatrixClose(idle.get(getPart(model, name))!, rest.get(name)!));
+
+    // 完全爆炸时至少有部件移动
+    const exploded = engine.computeTransforms(1);
+    const moved = PART_NAMES.filter(name => {
+      const matrix = exploded.get(getPart(model, name))!;
+      return matrix.elements.some((value, i) => Math.abs(value - rest.get(name)!.elements[i]) > 1e-6);
+    });
+    expect(moved.length).toBeGreaterThan(0);
+
+    expectTransformsMatchPlacement(model, engine, 1);
+    engine.dispose();
+  });
+
+  it.each(Object.values(ExplosionMode))('%s 模式下嵌套部件相对父级爆炸后的变换计算', (mode) => {
+    const model = createNestedAssembly();
+    const engine = new ExplosionEngine(model, { mode, adaptModel: false });
+
+    expectTransformsMatchPlacement(model, engine, 1);
+    engine.dispose();
+  });
+
+  it('嵌套部件带旋转时与实际放置结果一致', () => {
+    const model = createNestedAssembly();
+    const engine = new ExplosionEngine(model, { adaptModel: false, rotation: { type: 'tilt', angle: 0.6 } });
+
+    expectTransformsMatchPlacement(model, engine, 0.7);
+    engine.dispose();
+  });
+
+  it('不会打断正在播放的动画', () => {
+    const engine = new ExplosionEngine(createAssembly(), { adaptModel: false });
+    const animation = engine.animateTo(1, { duration: 1000 });
+
+    engine.computeTransforms(0.5, ExplosionMode.AXIAL);
+    expect(engine.isAnimating()).toBe(true);
+
+    animation.cancel();
+    engine.dispose();
+  });
+});
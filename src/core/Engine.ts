@@ -0,0 +1,1730 @@
+import { Object3D, Vector3, Euler, Quaternion, Box3, Sphere, Matrix4, Mesh, InstancedMesh, Points, Line } from 'three';
+import { ExploderOptions, ProgressChangeCallback, ExplosionMode, ExplosionModeId, ExplosionModeContext, ExplosionModeDefinition, ModeParamValues, EXPLODER_CONSTANTS, AnimateOptions, ExplosionAnimation, ExplosionSequence, PartSelector, PartOverride, ExplosionGranularity, PartRotation, StraddlePolicy, FocusExplosion, ExplosionCenter } from './types';
+import { calculateDirection, clamp, matchesPart, getWorldBounds } from './utils';
+import { runTween, resolveEasing } from './Tween';
+import { computeSequenceWindows, getLocalProgress, SequenceWindow } from './Sequence';
+import { hasOverlaps } from './Collision';
+import { buildExplosionUnits } from './Grouping';
+import { computePrincipalAxes, computeUprightRotation } from './Axes';
+import { InstanceProxy, createInstanceProxies, commitInstances } from './Instancing';
+import { getExplosionMode } from './ModeRegistry';
+import './BuiltinModes';
+
+/**
+ * 无头爆炸引擎
+ * 只依赖模型本身完成全部爆炸计算，不需要渲染器与 DOM，可在 Node 或 Web Worker 中运行
+ * ExploderCore 在其之上接入场景灯光与渲染
+ */
+export class ExplosionEngine {
+  protected model: Object3D;
+  protected options: Required<ExploderOptions>;
+  private progress = EXPLODER_CONSTANTS.PROGRESS.DEFAULT;
+  private multiplier = EXPLODER_CONSTANTS.MULTIPLIER.DEFAULT;
+  private mode: ExplosionModeId = ExplosionMode.RADIAL;
+  
+  // 存储原始位置、方向和缩放
+  private originalPositions: Map<Object3D, Vector3> = new Map();
+  private originalRotations: Map<Object3D, Euler> = new Map();
+  private originalScales: Map<Object3D, Vector3> = new Map();
+  // 静止状态下父级的世界矩阵（用于不修改场景地计算局部变换）
+  private restParentMatrices: Map<Object3D, Matrix4> = new Map();
+  
+  // 存储爆炸方向
+  private explodeDirections: Map<Object3D, Vector3> = new Map();
+  // 存储部件的序列窗口（用于分阶段/交错爆炸）
+  private sequenceWindows: Map<Object3D, SequenceWindow> = new Map();
+  // 存储部件静止状态下的世界包围盒（用于碰撞检测）
+  private restBoxes: Map<Object3D, Box3> = new Map();
+  // 各爆炸模式的计算上下文（首次使用时执行 precompute，模型或配置变化后失效）
+  private modeContexts: Map<string, { definition: ExplosionModeDefinition; context: ExplosionModeContext }> = new Map();
+  // 部件覆盖规则（按添加顺序，后添加的优先）及其解析结果
+  private overrideRules: { selector: PartSelector; override: PartOverride }[] = [];
+  private partOverrides: Map<Object3D, PartOverride> = new Map();
+  
+  // 模型中心点（包围盒中心）
+  protected modelCenter: Vector3;
+  // 爆炸中心（默认为包围盒中心，可通过 setExplosionCenter 自定义）
+  private explosionCenter: Vector3 = new Vector3();
+  // 模型参考半径（用于力场计算）
+  protected modelRadius = 1.0;
+  // 静止状态下的模型包围盒（朝向归一化与自适应之后）
+  private modelBounds: Box3 = new Box3();
+  // 模型主轴（静止状态下顶点分布的 PCA，按方差从大到小）
+  private principalAxes: Vector3[] = [];
+  // 模型自适应缩放比例 (影响测量真实性)
+  private visualScale = 1.0;
+  // 模型在自适应之后的整体平移（多模型并排布局）
+  private placement = new Vector3();
+  // 接入前模型各节点的局部变换，销毁或切换模型时据此精确还原宿主模型
+  private hostTransforms: Map<Object3D, { position: Vector3; quaternion: Quaternion; scale: Vector3 }> = new Map();
+  
+  // 进度变化回调
+  private onProgressChangeCallback: ProgressChangeCallback | null = null;
+
+  // 当前播放中的动画
+  private currentAnimation: ExplosionAnimation | null = null;
+  // 模式过渡：过渡前的模式与插值因子（0 为旧模式，1 为新模式）
+  private blendFromMode: ExplosionModeId | null = null;
+  private modeBlend = 1;
+  
+  // 可爆炸的单位列表（默认为网格，随爆炸粒度可能是分组节点）
+  private explodableMeshes: Object3D[] = [];
+  // 遍历收集到的叶子网格（过滤掉空对象和辅助对象）
+  private leafMeshes: Object3D[] = [];
+  // InstancedMesh 中各实例的代理节点
+  private instanceProxies: InstanceProxy[] = [];
+  // 虚拟分组的附属成员（随代表单位同步位移）
+  private unitMembers: Map<Object3D, Object3D[]> = new Map();
+  // 各爆炸单位包含的叶子部件（用于判断单位是否可见）
+  private unitLeaves: Map<Object3D, Object3D[]> = new Map();
+  // 当前被旋转过的单位（旋转关闭时需恢复原始朝向）
+  private rotatedUnits: Set<Object3D> = new Set();
+  // 局部聚焦爆炸：聚焦的对象、其所属的爆炸单位及静止中心
+  private focusTarget: Object3D | null = null;
+  private focusUnit: Object3D | null = null;
+  private focusCenter: Vector3 | null = null;
+
+
+  /**
+   * 创建一个新的爆炸引擎实例
+   * 
+   * @param model - 要爆炸的 glTF/GLB 模型
+   * @param options - 配置选项
+   */
+  constructor(model: Object3D, options: ExploderOptions = {}) {
+    this.model = model;
+    
+    // 设置默认选项
+    this.options = {
+      maxDistance: options.maxDistance ?? EXPLODER_CONSTANTS.DEFAULT_MAX_DISTANCE,
+      duration: options.duration ?? EXPLODER_CONSTANTS.DEFAULT_DURATION,
+      easing: options.easing ?? EXPLODER_CONSTANTS.DEFAULT_EASING,
+      createUI: options.createUI ?? true,
+      viewport: options.viewport ?? (typeof document !== 'undefined' ? document.body : ''),
+      uiStyle: options.uiStyle ?? {
+        width: '200px',
+        height: '30px',
+        position: 'bottom'
+      },
+      directionStrategy: options.directionStrategy ?? calculateDirection,
+      mode: options.mode ?? ExplosionMode.RADIAL,
+      axialVector: options.axialVector ?? new Vector3(0, 1, 0),
+      straddlePolicy: options.straddlePolicy ?? 'nearest',
+      modeParams: { ...options.modeParams },
+      visibilityAware: options.visibilityAware ?? false,
+      granularity: options.granularity ?? { type: 'mesh' },
+      sequence: options.sequence ?? null,
+      rotation: options.rotation ?? null,
+      focus: options.focus ?? null,
+      explosionCenter: options.explosionCenter ?? 'bbox',
+      adaptModel: options.adaptModel ?? true,
+      upAxis: options.upAxis ?? 'y',
+      autoFrame: options.autoFrame ?? 'off',
+      model: options.model ?? model,
+      modelUrl: options.modelUrl || '',
+      modelFormat: options.modelFormat ?? '',
+      showLoading: options.showLoading ?? true,
+      decoders: options.decoders ?? null,
+      gltfLoader: options.gltfLoader ?? null,
+      showUpload: options.showUpload ?? false,
+      showHelpers: options.showHelpers ?? false,
+      showPanel: options.showPanel ?? true,
+      showProgress: options.showProgress ?? true,
+      wheelControlExplosion: options.wheelControlExplosion ?? false,
+      models: options.models ?? [],
+      initialModel: options.initialModel ?? ''
+    };
+    
+    this.mode = this.options.mode;
+
+    // 记录宿主模型的原始变换，再将模型转为 Y 轴朝上并执行缩放和居中（均可在销毁时还原）
+    this.captureHostTransform();
+    this.orientModel();
+    if (this.options.adaptModel) {
+      this.adaptModelToScene();
+    }
+    this.applyPlacement();
+    
+    // 计算模型中心和参考半径
+    const box = new Box3().setFromObject(this.model);
+    this.modelBounds = box.clone();
+    this.modelCenter = box.getCenter(new Vector3());
+    const sphere = box.getBoundingSphere(new Sphere());
+    this.modelRadius = sphere.radius || 1.0;
+    
+    // 保存原始变换和计算爆炸方向
+    this.saveOriginalTransforms(this.model);
+  }
+  
+  /**
+   * 记录模型各节点接入前的局部变换
+   * 朝向归一化、自适应与爆炸都只修改局部变换，按记录还原即可与接入前完全一致
+   * @private
+   */
+  private captureHostTransform(): void {
+    this.hostTransforms.clear();
+    this.model.traverse(object => {
+      this.hostTransforms.set(object, {
+        position: object.position.clone(),
+        quaternion: object.quaternion.clone(),
+        scale: object.scale.clone()
+      });
+    });
+  }
+
+  /**
+   * 将模型还原为接入前的状态
+   * @private
+   */
+  private restoreHostTransform(): void {
+    if (this.hostTransforms.size === 0) return;
+    this.hostTransforms.forEach((transform, object) => {
+      object.position.copy(transform.position);
+      object.quaternion.copy(transform.quaternion);
+      object.scale.copy(transform.scale);
+    });
+    this.instanceProxies.forEach(proxy => proxy.restoreInstance());
+    commitInstances(this.instanceProxies);
+    this.model.updateMatrixWorld(true);
+    this.hostTransforms.clear();
+  }
+
+  /**
+   * 按 upAxis 将模型转为 Y 轴朝上，使网格地面与轴向模式和用户看到的一致
+   * @private
+   */
+  private orientModel(): void {
+    if (this.options.upAxis === 'y') return;
+
+    const rotation = computeUprightRotation(this.model, this.options.upAxis);
+    // 世界空间旋转换算到模型的局部空间
+    const parentRotation = this.model.parent
+      ? this.model.parent.getWorldQuaternion(new Quaternion())
+      : new Quaternion();
+    const localRotation = parentRotation.clone().invert().multiply(rotation).multiply(parentRotation);
+    this.model.quaternion.premultiply(localRotation);
+    this.model.updateMatrixWorld(true);
+  }
+
+  /**
+   * 自动缩放和居中模型
+   * @private
+   */
+  private adaptModelToScene(): void {
+    const box = new Box3().setFromObject(this.model);
+    // const center = box.getCenter(new Vector3());
+    const size = box.getSize(new Vector3());
+    const maxDim = Math.max(size.x, size.y, size.z);
+    
+    if (maxDim > 0) {
+      // 统一缩放基准：将模型缩放到约 5 个单位大小
+      const scale = EXPLODER_CONSTANTS.DEFAULT_ADAPT_SIZE / maxDim;
+      this.visualScale = scale;
+      this.model.scale.multiplyScalar(scale);
+      
+      // 重新计算中心点（缩放后）
+      const newBox = new Box3().setFromObject(this.model);
+      const newCenter = newBox.getCenter(new Vector3());
+      
+      // 将模型中心移动到原点
+      this.model.position.sub(newCenter);
+    }
+  }
+
+  /**
+   * 按放置偏移整体平移模型
+   * @private
+   */
+  private applyPlacement(): void {
+    if (this.placement.lengthSq() === 0) return;
+    this.model.position.add(this.placement);
+    this.model.updateMatrixWorld(true);
+  }
+
+  /**
+   * 保存模型各部分的原始位置、旋转和缩放，并计算爆炸方向
+   * @private
+   */
+  private saveOriginalTransforms(object: Object3D): void {
+    // 递归遍历所有对象并收集叶子网格
+    this.traverseAndSave(object);
+    // 按爆炸粒度组织爆炸单位并计算方向
+    this.buildUnits();
+    // 计算各模式所需的派生数据
+    this.calculateDerivedData();
+    // 分析模型主轴（必须在静止状态下进行）
+    this.principalAxes = computePrincipalAxes(this.model);
+  }
+
+  /**
+   * 根据爆炸粒度构建爆炸单位，并计算每个单位的爆炸方向
+   * @private
+   */
+  private buildUnits(): void {
+    const { units, members } = buildExplosionUnits(this.leafMeshes, this.model, this.options.granularity);
+    this.explodableMeshes = units;
+    this.unitMembers = members;
+    this.collectUnitLeaves();
+
+    // 记录静止包围盒
+    this.calculateRestBoxes();
+    // 计算参与爆炸的部件范围（依赖静止包围盒）
+    this.measureParts();
+    // 确定爆炸中心（依赖静止包围盒）
+    this.resolveExplosionCenter();
+    // 计算爆炸方向
+    this.calculateDirections();
+  }
+
+  /**
+   * 把叶子部件归入所属的爆炸单位（自身、虚拟分组成员或最近的单位祖先）
+   * @private
+   */
+  private collectUnitLeaves(): void {
+    this.unitLeaves.clear();
+    const units = new Set(this.explodableMeshes);
+    const memberUnits = new Map<Object3D, Object3D>();
+    this.unitMembers.forEach((members, unit) => members.forEach(member => memberUnits.set(member, unit)));
+
+    for (const leaf of this.leafMeshes) {
+      let unit: Object3D | null = memberUnits.get(leaf) ?? null;
+      let current: Object3D | null = leaf;
+      while (!unit && current) {
+        if (units.has(current)) unit = current;
+        current = current.parent;
+      }
+      if (!unit) continue;
+      const leaves = this.unitLeaves.get(unit);
+      if (leaves) leaves.push(leaf);
+      else this.unitLeaves.set(unit, [leaf]);
+    }
+  }
+
+  /**
+   * 计算模型中心与参考半径：开启可见性感知时只统计当前可见的部件，否则使用整个模型
+   * @private
+   */
+  private measureParts(): void {
+    const box = new Box3();
+    if (this.options.visibilityAware) {
+      for (const unit of this.explodableMeshes) {
+        const restBox = this.restBoxes.get(unit);
+        if (restBox && this.isUnitVisible(unit)) box.union(restBox);
+      }
+    }
+    // 未开启或没有可见部件时使用整个模型
+    if (box.isEmpty()) box.copy(this.modelBounds);
+
+    this.modelCenter = box.getCenter(new Vector3());
+    this.modelRadius = box.getBoundingSphere(new Sphere()).radius || 1.0;
+  }
+
+  /**
+   * 判断爆炸单位是否可见：只要有一个叶子部件（网格、点云、线条或实例）自身及所有祖先可见即可
+   * 分组单位内的网格全部隐藏时，即使分组节点本身可见也视为隐藏
+   * @private
+   */
+  private isUnitVisible(unit: Object3D): boolean {
+    const isVisible = (object: Object3D): boolean => {
+      let current: Object3D | null = object;
+      while (current) {
+        if (!current.visible) return false;
+        if (current === this.model) break;
+        current = current.parent;
+      }
+      return true;
+    };
+    // 骨骼等没有几何体的附属成员不是叶子部件，不影响可见性
+    const leaves = this.unitLeaves.get(unit);
+    return leaves ? leaves.some(isVisible) : isVisible(unit);
+  }
+
+  /**
+   * 判断部件是否参与中心、尺寸等统计（开启可见性感知时排除隐藏部件）
+   * @private
+   */
+  private isUnitCounted(unit: Object3D): boolean {
+    return !this.options.visibilityAware || this.isUnitVisible(unit);
+  }
+
+  /**
+   * 计算每个爆炸单位从爆炸中心向外的方向
+   * @private
+   */
+  private calculateDirections(): void {
+    this.explodeDirections.clear();
+
+    for (const unit of this.explodableMeshes) {
+      let direction: Vector3 | null = null;
+      if (this.unitMembers.has(unit)) {
+        // 虚拟分组：使用整组包围盒中心计算方向
+        const box = this.restBoxes.get(unit);
+        const offset = box ? box.getCenter(new Vector3()).sub(this.explosionCenter) : new Vector3();
+        if (offset.length() >= EXPLODER_CONSTANTS.DIRECTION.MIN_LENGTH) {
+          direction = offset.normalize();
+        }
+      }
+      // 计算爆炸方向（从中心点向外）
+      this.explodeDirections.set(unit, direction ?? this.options.directionStrategy(unit, this.explosionCenter));
+    }
+  }
+
+  /**
+   * 根据配置计算爆炸中心（须在静止状态下调用）
+   * @private
+   */
+  private resolveExplosionCenter(): void {
+    const center = this.options.explosionCenter;
+
+    if (center instanceof Vector3) {
+      this.explosionCenter = center.clone();
+      return;
+    }
+
+    if (center instanceof Object3D) {
+      // 部件必须属于当前模型
+      let current: Object3D | null = center;
+      while (current && current !== this.model) {
+        current = current.parent;
+      }
+      if (current) {
+        const box = new Box3().setFromObject(center);
+        this.explosionCenter = box.isEmpty() ? center.getWorldPosition(new Vector3()) : box.getCenter(new Vector3());
+        return;
+      }
+      console.warn('GLTFExploder: 爆炸中心部件不属于当前模型，已回退为包围盒中心');
+    }
+
+    if (center === 'centroid') {
+      // 以部件包围盒体积为权重的质心，比包围盒中心更贴近非对称产品的视觉重心
+      const sum = new Vector3();
+      let totalWeight = 0;
+      for (const [unit, box] of this.restBoxes) {
+        if (!this.isUnitCounted(unit)) continue;
+        const size = box.getSize(new Vector3());
+        const volume = size.x * size.y * size.z;
+        sum.add(box.getCenter(new Vector3()).multiplyScalar(volume));
+        totalWeight += volume;
+      }
+      if (totalWeight > 0) {
+        this.explosionCenter = sum.divideScalar(totalWeight);
+        return;
+      }
+    }
+
+    this.explosionCenter = this.modelCenter.clone();
+  }
+
+  /**
+   * 计算各爆炸模式依赖的派生数据
+   * @private
+   */
+  private calculateDerivedData(): void {
+    // 解析部件覆盖规则
+    this.resolvePartOverrides();
+    // 计算序列窗口
+    this.calculateSequenceWindows();
+    // 爆炸单位可能变化，重新定位聚焦中心
+    this.resolveFocus();
+    // 各模式的预计算结果随之失效
+    this.modeContexts.clear();
+  }
+
+  /**
+   * 记录所有部件在静止状态下的世界包围盒
+   * @private
+   */
+  private calculateRestBoxes(): void {
+    this.restBoxes.clear();
+
+    for (const mesh of this.explodableMeshes) {
+      // 有几何体时仅使用自身几何体，避免把子网格计入
+      const box = getWorldBounds(mesh);
+      this.unitMembers.get(mesh)?.forEach(member => box.expandByObject(member));
+      this.restBoxes.set(mesh, box);
+    }
+  }
+
+  /**
+   * 获取爆炸模式的计算上下文，首次使用时执行模式的预计算
+   * @param mode 模式标识
+   * @param definition 模式定义
+   * @private
+   */
+  private getModeContext(mode: ExplosionModeId, definition: ExplosionModeDefinition): ExplosionModeContext {
+    let cached = this.modeContexts.get(mode);
+    // 模式被重新注册时需要重新预计算
+    if (cached && cached.definition !== definition) {
+      cached = undefined;
+    }
+
+    const isNew = !cached;
+    if (!cached) {
+      cached = {
+        definition,
+        context: {
+          model: this.model,
+          center: this.explosionCenter,
+          radius: this.modelRadius,
+          maxDistance: this.options.maxDistance,
+          multiplier: this.multiplier,
+          axialVector: this.options.axialVector,
+          straddlePolicy: this.options.straddlePolicy,
+          originalPositions: this.originalPositions,
+          directions: this.explodeDirections,
+          restBoxes: this.restBoxes,
+          overrides: this.partOverrides,
+          params: this.resolveModeParams(mode, definition),
+          state: {}
+        }
+      };
+      this.modeContexts.set(mode, cached);
+    }
+
+    // 刷新会随调用变化的参数
+    const context = cached.context;
+    context.model = this.model;
+    context.center = this.explosionCenter;
+    context.radius = this.modelRadius;
+    context.maxDistance = this.options.maxDistance;
+    context.multiplier = this.multiplier;
+    context.axialVector = this.options.axialVector;
+    context.straddlePolicy = this.options.straddlePolicy;
+
+    if (isNew && definition.precompute) {
+      const meshes = this.explodableMeshes.filter(mesh => !this.partOverrides.get(mesh)?.excluded && this.isUnitCounted(mesh));
+      definition.precompute(meshes, context);
+    }
+    return context;
+  }
+
+  /**
+   * 查找对象所属的爆炸单位（自身、祖先或虚拟分组成员）
+   * @private
+   */
+  private findUnit(object: Object3D): Object3D | null {
+    let current: Object3D | null = object;
+    while (current) {
+      if (this.restBoxes.has(current)) return current;
+      current = current.parent;
+    }
+    for (const [unit, members] of this.unitMembers) {
+      if (members.includes(object)) return unit;
+    }
+    return null;
+  }
+
+  /**
+   * 计算聚焦对象所属的单位及其静止中心
+   * @private
+   */
+  private resolveFocus(): void {
+    this.focusUnit = null;
+    this.focusCenter = null;
+    if (!this.focusTarget) return;
+
+    this.focusUnit = this.findUnit(this.focusTarget);
+    const box = this.focusUnit ? this.restBoxes.get(this.focusUnit) : undefined;
+    this.focusCenter = box
+      ? box.getCenter(new Vector3())
+      : this.focusTarget.getWorldPosition(new Vector3());
+  }
+
+  /**
+   * 计算局部聚焦爆炸的位移：影响半径内的部件远离聚焦中心，强度随距离衰减
+   * @param mesh 爆炸单位
+   * @param progress 部件局部进度
+   * @private
+   */
+  private computeFocusOffset(mesh: Object3D, progress: number, focus: FocusExplosion, focusCenter: Vector3): Vector3 {
+    // 聚焦的部件本身保持不动
+    if (mesh === this.focusUnit) return new Vector3();
+
+    const box = this.restBoxes.get(mesh);
+    const position = box ? box.getCenter(new Vector3()) : this.originalPositions.get(mesh)?.clone();
+    if (!position) return new Vector3();
+
+    // 使用包围盒到聚焦中心的最近距离，使紧贴的大部件同样受影响
+    const distance = box ? box.distanceToPoint(focusCenter) : position.distanceTo(focusCenter);
+    const radius = this.modelRadius * (focus.radius ?? EXPLODER_CONSTANTS.FOCUS.RADIUS);
+    if (distance >= radius) return new Vector3();
+
+    const t = 1 - distance / radius;
+    let weight: number;
+    switch (focus.falloff) {
+      case 'linear': weight = t; break;
+      case 'none': weight = 1; break;
+      default: weight = t * t * (3 - 2 * t);
+    }
+
+    const direction = position.sub(focusCenter);
+    if (direction.length() < EXPLODER_CONSTANTS.DIRECTION.MIN_LENGTH) {
+      direction.copy(this.explodeDirections.get(mesh) ?? new Vector3(0, 1, 0));
+    }
+    return direction.normalize().multiplyScalar(this.modelRadius * this.options.maxDistance * progress * this.multiplier * weight);
+  }
+
+  /**
+   * 根据序列配置计算每个部件的局部进度窗口
+   * @private
+   */
+  private calculateSequenceWindows(): void {
+    this.sequenceWindows.clear();
+    if (!this.options.sequence) return;
+
+    // 被排除的部件不参与序列排序
+    const meshes = this.explodableMeshes.filter(mesh => !this.partOverrides.get(mesh)?.excluded);
+    this.sequenceWindows = computeSequenceWindows(meshes, this.options.sequence, {
+      model: this.model,
+      center: this.explosionCenter,
+      originalPositions: this.originalPositions,
+      restBoxes: this.restBoxes
+    });
+  }
+
+  /**
+   * 将覆盖规则解析到具体网格上
+   * @private
+   */
+  private resolvePartOverrides(): void {
+    this.partOverrides.clear();
+    if (this.overrideRules.length === 0) return;
+
+    for (const mesh of this.explodableMeshes) {
+      let resolved: PartOverride | null = null;
+      for (const rule of this.overrideRules) {
+        if (matchesPart(mesh, rule.selector, this.model)) {
+          resolved = { ...(resolved ?? {}), ...rule.override };
+        }
+      }
+      if (resolved) {
+        if (resolved.direction) {
+          resolved.direction = resolved.direction.clone().normalize();
+        }
+        this.partOverrides.set(mesh, resolved);
+      }
+    }
+  }
+
+  /**
+   * 覆盖规则变化后，刷新缓存并重新计算位置
+   * @private
+   */
+  private applyPartOverrides(): void {
+    this.resolvePartOverrides();
+    this.calculateSequenceWindows();
+    this.modeContexts.clear();
+
+    // 被排除的部件恢复到原始位置，此后不再受爆炸器控制
+    for (const [mesh, override] of this.partOverrides) {
+      if (override.excluded) {
+        this.restoreOriginalTransform(mesh);
+      }
+    }
+
+    this.updateExplodedPositions();
+    this.render();
+  }
+
+  /**
+   * 递归遍历对象树并保存原始变换
+   * @private
+   */
+  private traverseAndSave(object: Object3D): void {
+    // 跳过不可见对象；开启可见性感知时全部登记，之后显示的部件同样参与爆炸
+    if (!object.visible && !this.options.visibilityAware) {
+      return;
+    }
+    
+    // 保存当前对象的位置、旋转和缩放
+    this.saveTransform(object);
+    
+    if ((object as InstancedMesh).isInstancedMesh) {
+      // 实例网格的每个实例作为独立部件，通过代理节点改写实例矩阵
+      for (const proxy of createInstanceProxies(object as InstancedMesh)) {
+        this.saveTransform(proxy);
+        this.instanceProxies.push(proxy);
+        this.leafMeshes.push(proxy);
+      }
+    } else if ((object as Mesh).isMesh || (object as Points).isPoints || (object as Line).isLine) {
+      // 网格（含蒙皮网格）、点云和线条添加到候选列表，稍后按爆炸粒度组织为爆炸单位
+      this.leafMeshes.push(object);
+    }
+    
+    // 递归处理子对象
+    object.children.forEach(child => {
+      this.traverseAndSave(child);
+    });
+  }
+  
+  /**
+   * 保存对象的原始世界位置、局部旋转与缩放
+   * @private
+   */
+  private saveTransform(object: Object3D): void {
+    const position = new Vector3();
+    object.getWorldPosition(position);
+    this.originalPositions.set(object, position);
+    // getWorldPosition 已更新父级的世界矩阵
+    this.restParentMatrices.set(object, object.parent ? object.parent.matrixWorld.clone() : new Matrix4());
+    
+    // 保存旋转和缩放（如果有）
+    if (object.rotation) {
+      this.originalRotations.set(object, object.rotation.clone());
+    }
+    
+    if (object.scale) {
+      this.originalScales.set(object, object.scale.clone());
+    }
+  }
+
+  /**
+   * 将实例代理的变换写回实例矩阵
+   * @private
+   */
+  private syncInstances(): void {
+    if (this.instanceProxies.length === 0) return;
+    this.instanceProxies.forEach(proxy => proxy.writeInstance());
+    commitInstances(this.instanceProxies);
+  }
+  
+  /**
+   * 设置新模型
+   * @param model 新的模型对象
+   */
+  public setModel(model: Object3D): void {
+    // 1. 重置当前进度，并还原旧模型的宿主变换
+    this.reset();
+    this.restoreHostTransform();
+    
+    // 2. 更新模型引用
+    const previousModel = this.model;
+    this.model = model;
+
+    // 转为 Y 轴朝上；如果开启了自适应模型，执行缩放和居中
+    this.captureHostTransform();
+    this.orientModel();
+    if (this.options.adaptModel) {
+      this.adaptModelToScene();
+    } else {
+      this.visualScale = 1.0;
+    }
+    this.applyPlacement();
+    
+    // 3. 计算新模型的中心和半径
+    const box = new Box3().setFromObject(this.model);
+    this.modelBounds = box.clone();
+    this.modelCenter = box.getCenter(new Vector3());
+    const sphere = box.getBoundingSphere(new Sphere());
+    this.modelRadius = sphere.radius || 1.0;
+    // 旧模型中的部件不能作为新模型的爆炸中心
+    if (this.options.explosionCenter instanceof Object3D && model !== previousModel) {
+      this.options.explosionCenter = 'bbox';
+    }
+    
+    // 4. 清理旧缓存
+    this.originalPositions.clear();
+    this.originalRotations.clear();
+    this.originalScales.clear();
+    this.restParentMatrices.clear();
+    this.explodeDirections.clear();
+    this.sequenceWindows.clear();
+    this.partOverrides.clear();
+    this.restBoxes.clear();
+    this.modeContexts.clear();
+    this.explodableMeshes = [];
+    this.leafMeshes = [];
+    this.instanceProxies = [];
+    this.unitMembers.clear();
+    this.rotatedUnits.clear();
+    this.focusTarget = null;
+    
+    // 5. 重新保存变换
+    this.saveOriginalTransforms(this.model);
+    
+    // 6. 重新渲染
+    this.render();
+  }
+
+  /**
+   * 设置爆炸进度（0-1 之间的值）
+   * 
+   * @param progress - 爆炸进度，0 表示未爆炸，1 表示完全爆炸
+   */
+  public setProgress(progress: number): void {
+    // 手动设置进度会打断正在播放的动画
+    this.cancelAnimation();
+
+    // 确保进度值在 0-1 之间
+    this.progress = clamp(progress, EXPLODER_CONSTANTS.PROGRESS.MIN, EXPLODER_CONSTANTS.PROGRESS.MAX);
+    
+    this.applyProgress();
+  }
+
+  /**
+   * 按当前进度更新模型位置、触发回调并重新渲染
+   * @private
+   */
+  private applyProgress(): void {
+    // 更新模型位置
+    this.updateExplodedPositions();
+    
+    // 触发进度变化回调
+    if (this.onProgressChangeCallback) {
+      this.onProgressChangeCallback(this.progress);
+    }
+    
+    // 重新渲染场景
+    this.render();
+  }
+  
+  /**
+   * 根据当前进度更新爆炸后的位置
+   * @private
+   */
+  private updateExplodedPositions(): void {
+    // 只处理可爆炸的网格
+    for (const mesh of this.explodableMeshes) {
+      // 被排除的部件不受爆炸器控制
+      if (this.partOverrides.get(mesh)?.excluded) continue;
+
+      const targetWorldPosition = this.computeTargetPosition(mesh, this.mode);
+      if (!targetWorldPosition) continue;
+
+      // 模式过渡中：在旧模式与新模式的位置之间插值
+      if (this.blendFromMode !== null && this.modeBlend < 1) {
+        const fromPosition = this.computeTargetPosition(mesh, this.blendFromMode);
+        if (fromPosition) {
+          targetWorldPosition.copy(fromPosition.lerp(targetWorldPosition, this.modeBlend));
+        }
+      }
+      
+      const originalPosition = this.originalPositions.get(mesh);
+      if (!originalPosition) continue;
+      const delta = targetWorldPosition.sub(originalPosition);
+
+      // 计算随进度变化的旋转（绕部件自身中心）
+      const rotation = this.computeRotation(mesh);
+      const pivot = rotation ? this.restBoxes.get(mesh)?.getCenter(new Vector3()) ?? originalPosition.clone() : null;
+      // 旋转刚被关闭的单位需要恢复原始朝向
+      const restoreRotation = !rotation && this.rotatedUnits.delete(mesh);
+      if (rotation) {
+        this.rotatedUnits.add(mesh);
+      }
+
+      // 单位及其虚拟分组成员作为刚体同步移动
+      this.placeObject(mesh, delta, rotation, pivot, restoreRotation);
+      this.unitMembers.get(mesh)?.forEach(member => this.placeObject(member, delta, rotation, pivot, restoreRotation));
+    }
+    this.syncInstances();
+  }
+
+  /**
+   * 按刚体变换放置对象：先绕静止中心旋转，再整体平移
+   * @param object 对象
+   * @param delta 世界平移量
+   * @param rotation 世界旋转（null 表示不旋转）
+   * @param pivot 旋转中心（静止状态下的世界坐标）
+   * @param restoreRotation 是否把旋转恢复为原始值（旋转刚被关闭时）
+   * @private
+   */
+  private placeObject(object: Object3D, delta: Vector3, rotation: Quaternion | null, pivot: Vector3 | null, restoreRotation: boolean): void {
+    const originalPosition = this.originalPositions.get(object);
+    if (!originalPosition) return;
+
+    const targetWorldPosition = originalPosition.clone();
+    const originalRotation = this.originalRotations.get(object);
+
+    if (rotation && pivot) {
+      // 位置绕旋转中心旋转
+      targetWorldPosition.sub(pivot).applyQuaternion(rotation).add(pivot);
+
+      // 朝向：局部 = 父级世界旋转的逆 * 世界旋转 * 父级世界旋转 * 原始局部旋转
+      if (originalRotation) {
+        const parentQuaternion = new Quaternion();
+        object.parent?.getWorldQuaternion(parentQuaternion);
+        const local = parentQuaternion.clone().invert()
+          .multiply(rotation)
+          .multiply(parentQuaternion)
+          .multiply(new Quaternion().setFromEuler(originalRotation));
+        object.quaternion.copy(local);
+      }
+    } else if (restoreRotation && originalRotation) {
+      object.rotation.copy(originalRotation);
+    }
+
+    targetWorldPosition.add(delta);
+    
+    // 将世界坐标转换为父对象的局部坐标
+    if (object.parent) {
+      object.parent.worldToLocal(targetWorldPosition);
+    }
+    
+    // 更新对象位置
+    object.position.copy(targetWorldPosition);
+  }
+
+  /**
+   * 计算部件在当前进度下的世界旋转
+   * @param mesh 爆炸单位
+   * @returns 世界旋转，无需旋转时返回 null
+   * @private
+   */
+  private computeRotation(mesh: Object3D, globalProgress: number = this.progress): Quaternion | null {
+    const override = this.partOverrides.get(mesh);
+    if (override && (override.locked || override.excluded)) return null;
+
+    // 部件级配置优先（显式为 null 表示该部件不旋转）
+    const config = override && override.rotation !== undefined ? override.rotation : this.options.rotation;
+    if (!config || config.angle === 0) return null;
+
+    const progress = getLocalProgress(this.sequenceWindows.get(mesh), globalProgress);
+    if (progress <= 0) return null;
+
+    const direction = override?.direction ?? this.explodeDirections.get(mesh) ?? new Vector3(0, 1, 0);
+    const axis = new Vector3();
+
+    if (config.type === 'spin') {
+      // 自转：默认绕爆炸方向旋转（如螺丝拧出）
+      axis.copy(config.axis ?? direction);
+    } else {
+      // 倾斜：绕垂直于爆炸方向的水平轴旋转，使部件顶部向外翻开
+      const up = Math.abs(direction.y) > 0.99 ? new Vector3(1, 0, 0) : new Vector3(0, 1, 0);
+      axis.crossVectors(up, direction);
+    }
+
+    if (axis.lengthSq() < 1e-12) return null;
+    return new Quaternion().setFromAxisAngle(axis.normalize(), config.angle * progress);
+  }
+
+  /**
+   * 计算网格在指定模式下、当前进度与系数时的目标世界坐标
+   * @param mesh 网格
+   * @param mode 爆炸模式
+   * @param globalProgress 整体爆炸进度（默认为当前进度）
+   * @returns 目标世界坐标，缺少缓存数据或模式未注册时返回 null
+   * @private
+   */
+  private computeTargetPosition(mesh: Object3D, mode: ExplosionModeId, globalProgress: number = this.progress): Vector3 | null {
+    const originalPosition = this.originalPositions.get(mesh);
+    const direction = this.explodeDirections.get(mesh);
+    const definition = getExplosionMode(mode);
+    
+    if (!originalPosition || !direction || !definition) {
+      return null;
+    }
+
+    // 锁定的部件始终停留在原位
+    const override = this.partOverrides.get(mesh);
+    if (override && (override.locked || override.excluded)) {
+      return originalPosition.clone();
+    }
+
+    // 分阶段/交错爆炸时，每个部件使用自己的局部进度
+    const progress = getLocalProgress(this.sequenceWindows.get(mesh), globalProgress);
+    
+    // 局部聚焦时只有聚焦部件附近的部件移动，否则由注册的模式计算位移
+    const offset = this.options.focus && this.focusCenter
+      ? this.computeFocusOffset(mesh, progress, this.options.focus, this.focusCenter)
+      : definition.computeOffset(mesh, progress, this.getModeContext(mode, definition));
+    const targetWorldPosition = originalPosition.clone().add(offset);
+
+    // 应用部件覆盖：保持位移量，替换方向并缩放距离（模式自行应用覆盖时跳过）
+    if (override && (this.options.focus && this.focusCenter || !definition.handlesOverrides)) {
+      const offset = targetWorldPosition.clone().sub(originalPosition);
+      if (override.direction) {
+        const distance = offset.length();
+        offset.copy(override.direction).multiplyScalar(distance);
+      }
+      if (override.distanceScale !== undefined) {
+        offset.multiplyScalar(override.distanceScale);
+      }
+      targetWorldPosition.copy(originalPosition).add(offset);
+    }
+
+    return targetWorldPosition;
+  }
+
+  /**
+   * 以动画方式过渡到目标进度
+   * 可同时通过 options.mode / options.multiplier 平滑切换模式与系数
+   * 
+   * @param progress - 目标爆炸进度（0-1）
+   * @param options - 动画选项
+   * @returns 可取消的动画 Promise，完成时兑现为 true，被取消时兑现为 false
+   */
+  public animateTo(progress: number, options: AnimateOptions = {}): ExplosionAnimation {
+    // 新动画会打断正在播放的动画
+    this.cancelAnimation();
+
+    const fromProgress = this.progress;
+    const toProgress = clamp(progress, EXPLODER_CONSTANTS.PROGRESS.MIN, EXPLODER_CONSTANTS.PROGRESS.MAX);
+    const fromMultiplier = this.multiplier;
+    const toMultiplier = options.multiplier !== undefined
+      ? clamp(options.multiplier, EXPLODER_CONSTANTS.MULTIPLIER.MIN, EXPLODER_CONSTANTS.MULTIPLIER.MAX)
+      : this.multiplier;
+
+    // 模式切换：立即切到新模式，位置在新旧模式之间插值（未注册的模式保留当前模式）
+    if (options.mode !== undefined && !getExplosionMode(options.mode)) {
+      console.warn(`GLTFExploder: 未注册的爆炸模式 "${options.mode}"`);
+    } else if (options.mode !== undefined && options.mode !== this.mode) {
+      this.blendFromMode = this.mode;
+      this.modeBlend = 0;
+      this.mode = options.mode;
+    }
+
+    const duration = options.duration ?? this.options.duration;
+    const easing = resolveEasing(options.easing ?? this.options.easing);
+
+    let animation: ExplosionAnimation | null = null;
+    animation = runTween(
+      duration,
+      easing,
+      (t) => {
+        this.progress = fromProgress + (toProgress - fromProgress) * t;
+        this.multiplier = fromMultiplier + (toMultiplier - fromMultiplier) * t;
+        this.modeBlend = t;
+        this.applyProgress();
+        options.onUpdate?.(this.progress);
+      },
+      () => {
+        // 无论完成还是取消，都结束模式过渡
+        this.blendFromMode = null;
+        this.modeBlend = 1;
+        if (this.currentAnimation === animation) {
+          this.currentAnimation = null;
+        }
+      }
+    );
+
+    // 同步完成的动画（duration <= 0）不需要记录
+    if (duration > 0) {
+      this.currentAnimation = animation;
+    }
+    return animation;
+  }
+
+  /**
+   * 取消正在播放的动画（模型停留在当前状态）
+   */
+  public cancelAnimation(): void {
+    if (this.currentAnimation) {
+      const animation = this.currentAnimation;
+      this.currentAnimation = null;
+      animation.cancel();
+      // 被打断的模式过渡直接落到目标模式
+      this.updateExplodedPositions();
+    }
+  }
+
+  /**
+   * 是否正在播放动画
+   */
+  public isAnimating(): boolean {
+    return this.currentAnimation !== null;
+  }
+
+  /**
+   * 设置爆炸模式
+   * @param mode 爆炸模式（内置模式或已注册的自定义模式）
+   */
+  public setMode(mode: ExplosionModeId): void {
+    if (!getExplosionMode(mode)) {
+      console.warn(`GLTFExploder: 未注册的爆炸模式 "${mode}"`);
+      return;
+    }
+    this.cancelAnimation();
+    this.mode = mode;
+    this.updateExplodedPositions();
+    this.render();
+  }
+
+  /**
+   * 获取当前爆炸模式
+   * @returns 当前模式
+   */
+  public getMode(): ExplosionModeId {
+    return this.mode;
+  }
+
+  /**
+   * 计算指定进度与模式下各部件的爆炸变换
+   * 只根据缓存的静止变换与爆炸方向计算，不修改模型，也不会打断正在播放的动画
+   * 返回值为爆炸单位及其分组成员的局部矩阵；实例网格中的实例以 InstanceProxy 为键，矩阵即实例矩阵
+   * 嵌套在其他移动部件之下的部件，其局部矩阵相对于父级爆炸后的世界矩阵，与 setProgress 的放置结果一致
+   * @param progress 爆炸进度（0-1）
+   * @param mode 爆炸模式（默认为当前模式）
+   * @returns 对象到局部变换矩阵的映射
+   */
+  public computeTransforms(progress: number, mode: ExplosionModeId = this.mode): Map<Object3D, Matrix4> {
+    if (!getExplosionMode(mode)) {
+      console.warn(`GLTFExploder: 未注册的爆炸模式 "${mode}"`);
+      mode = this.mode;
+    }
+    const globalProgress = clamp(progress, EXPLODER_CONSTANTS.PROGRESS.MIN, EXPLODER_CONSTANTS.PROGRESS.MAX);
+
+    const transforms = new Map<Object3D, Matrix4>();
+    // 已计算对象爆炸后的世界矩阵；按与 updateExplodedPositions 相同的顺序处理，父级先于子级
+    const worldMatrices = new Map<Object3D, Matrix4>();
+    const place = (object: Object3D, delta: Vector3, rotation: Quaternion | null, pivot: Vector3 | null) => {
+      const parentMatrix = this.getExplodedParentMatrix(object, worldMatrices);
+      const local = this.composeLocalMatrix(object, delta, rotation, pivot, parentMatrix);
+      transforms.set(object, local);
+      worldMatrices.set(object, parentMatrix.multiply(local));
+    };
+
+    for (const unit of this.explodableMeshes) {
+      const originalPosition = this.originalPositions.get(unit);
+      // 被排除或缺少缓存数据的部件保持静止变换
+      const target = originalPosition && !this.partOverrides.get(unit)?.excluded
+        ? this.computeTargetPosition(unit, mode, globalProgress)
+        : null;
+      const delta = target && originalPosition ? target.sub(originalPosition) : new Vector3();
+
+      const rotation = target ? this.computeRotation(unit, globalProgress) : null;
+      const pivot = rotation && originalPosition ? this.restBoxes.get(unit)?.getCenter(new Vector3()) ?? originalPosition.clone() : null;
+
+      place(unit, delta, rotation, pivot);
+      this.unitMembers.get(unit)?.forEach(member => place(member, delta, rotation, pivot));
+    }
+    return transforms;
+  }
+
+  /**
+   * 计算对象父级在爆炸状态下的世界矩阵：最近的已计算祖先带着整个子树做刚体位移，没有时为静止的父级世界矩阵
+   * @param object 对象
+   * @param worldMatrices 已计算对象爆炸后的世界矩阵
+   * @private
+   */
+  private getExplodedParentMatrix(object: Object3D, worldMatrices: Map<Object3D, Matrix4>): Matrix4 {
+    const restParentMatrix = this.restParentMatrices.get(object)?.clone() ?? new Matrix4();
+
+    let ancestor = object.parent;
+    while (ancestor && !worldMatrices.has(ancestor)) {
+      ancestor = ancestor.parent;
+    }
+    if (!ancestor) return restParentMatrix;
+
+    // 祖先的位移 = 爆炸后世界矩阵 * 静止世界矩阵的逆
+    const ancestorParentMatrix = this.restParentMatrices.get(ancestor) ?? new Matrix4();
+    const ancestorRestMatrix = ancestorParentMatrix.clone()
+      .multiply(this.composeLocalMatrix(ancestor, new Vector3(), null, null, ancestorParentMatrix));
+    return worldMatrices.get(ancestor)!.clone().multiply(ancestorRestMatrix.invert()).multiply(restParentMatrix);
+  }
+
+  /**
+   * 按静止变换计算对象经刚体变换后的局部矩阵（与 placeObject 的放置结果一致，但不修改对象）
+   * @param object 对象
+   * @param delta 世界平移量
+   * @param rotation 世界旋转（null 表示不旋转）
+   * @param pivot 旋转中心（静止状态下的世界坐标）
+   * @param parentMatrix 父级的世界矩阵
+   * @private
+   */
+  private composeLocalMatrix(object: Object3D, delta: Vector3, rotation: Quaternion | null, pivot: Vector3 | null, parentMatrix: Matrix4): Matrix4 {
+    const originalRotation = this.originalRotations.get(object);
+    const quaternion = originalRotation ? new Quaternion().setFromEuler(originalRotation) : object.quaternion.clone();
+    const scale = this.originalScales.get(object)?.clone() ?? object.scale.clone();
+
+    const position = this.originalPositions.get(object)?.clone() ?? object.getWorldPosition(new Vector3());
+    if (rotation && pivot) {
+      position.sub(pivot).applyQuaternion(rotation).add(pivot);
+      // 局部 = 父级世界旋转的逆 * 世界旋转 * 父级世界旋转 * 原始局部旋转
+      const parentQuaternion = new Quaternion();
+      parentMatrix.decompose(new Vector3(), parentQuaternion, new Vector3());
+      quaternion.premultiply(parentQuaternion.clone().invert().multiply(rotation).multiply(parentQuaternion));
+    }
+    position.add(delta).applyMatrix4(parentMatrix.clone().invert());
+
+    return new Matrix4().compose(position, quaternion, scale);
+  }
+  
+  /**
+   * 设置轴向向量
+   * @param vector 轴向向量
+   */
+  public setAxialVector(vector: Vector3): void {
+    this.options.axialVector.copy(vector);
+    // 依赖轴向的模式需要重新预计算
+    this.modeContexts.clear();
+    
+    this.updateExplodedPositions();
+    this.render();
+  }
+
+  /**
+   * 设置平面剖分模式下跨越剖分平面的部件处理策略
+   * @param policy 处理策略
+   */
+  public setStraddlePolicy(policy: StraddlePolicy): void {
+    this.options.straddlePolicy = policy;
+
+    this.updateExplodedPositions();
+    this.render();
+  }
+
+  /**
+   * 获取当前跨越部件处理策略
+   */
+  public getStraddlePolicy(): StraddlePolicy {
+    return this.options.straddlePolicy;
+  }
+
+  /**
+   * 设置爆炸模式参数（与已设置的参数合并），数值参数限制在定义的范围内
+   * @param mode 爆炸模式
+   * @param params 参数值（参数名 -> 值）
+   */
+  public setModeParams(mode: ExplosionModeId, params: ModeParamValues): void {
+    const definition = getExplosionMode(mode);
+    if (!definition) {
+      console.warn(`GLTFExploder: 未注册的爆炸模式 "${mode}"`);
+      return;
+    }
+
+    const values: ModeParamValues = { ...this.options.modeParams[mode] };
+    Object.entries(params).forEach(([key, value]) => {
+      const schema = definition.params?.[key];
+      if (!schema) {
+        console.warn(`GLTFExploder: 爆炸模式 "${mode}" 没有参数 "${key}"`);
+        return;
+      }
+      if (typeof value !== schema.type) {
+        console.warn(`GLTFExploder: 爆炸模式 "${mode}" 的参数 "${key}" 应为 ${schema.type} 类型`);
+        return;
+      }
+      values[key] = schema.type === 'number' ? clamp(value as number, schema.min, schema.max) : value;
+    });
+    this.options.modeParams[mode] = values;
+
+    // 丢弃缓存的上下文，下次计算时以新参数重新预计算
+    this.modeContexts.delete(mode);
+    if (mode === this.mode) {
+      this.updateExplodedPositions();
+      this.render();
+    }
+  }
+
+  /**
+   * 获取爆炸模式参数的当前值（已用默认值补全）
+   * @param mode 爆炸模式（默认为当前模式）
+   * @returns 参数值
+   */
+  public getModeParams(mode: ExplosionModeId = this.mode): ModeParamValues {
+    const definition = getExplosionMode(mode);
+    return definition ? this.resolveModeParams(mode, definition) : {};
+  }
+
+  /**
+   * 用模式定义的默认值补全已设置的参数，并剔除类型不符或越界的值
+   * @private
+   */
+  private resolveModeParams(mode: ExplosionModeId, definition: ExplosionModeDefinition): ModeParamValues {
+    const values = this.options.modeParams[mode] ?? {};
+    const resolved: ModeParamValues = {};
+    Object.entries(definition.params ?? {}).forEach(([key, schema]) => {
+      const value = values[key];
+      if (schema.type === 'number') {
+        resolved[key] = typeof value === 'number' ? clamp(value, schema.min, schema.max) : schema.default;
+      } else {
+        resolved[key] = typeof value === 'boolean' ? value : schema.default;
+      }
+    });
+    return resolved;
+  }
+
+  /**
+   * 设置爆炸中心，重新计算爆炸方向及各模式的预计算数据
+   * @param center 世界坐标点、部件（取其包围盒中心）、'bbox'（模型包围盒中心）或 'centroid'（体积加权质心）
+   */
+  public setExplosionCenter(center: ExplosionCenter): void {
+    this.cancelAnimation();
+
+    // 部件中心需要在静止状态下计算
+    this.resetToOriginalPositions();
+    this.options.explosionCenter = center;
+    this.resolveExplosionCenter();
+    this.calculateDirections();
+    this.calculateSequenceWindows();
+    this.modeContexts.clear();
+
+    this.updateExplodedPositions();
+    this.render();
+  }
+
+  /**
+   * 开启或关闭可见性感知，并立即按当前可见部件重新计算
+   * @param enabled 是否开启
+   */
+  public setVisibilityAware(enabled: boolean): void {
+    const collectHidden = enabled && !this.options.visibilityAware;
+    this.options.visibilityAware = enabled;
+    if (collectHidden) {
+      // 接入时跳过的隐藏部件需要补登记：在静止状态下重新收集部件并重建爆炸单位
+      this.cancelAnimation();
+      this.resetToOriginalPositions();
+      this.leafMeshes = [];
+      this.instanceProxies = [];
+      this.traverseAndSave(this.model);
+      this.buildUnits();
+    }
+    this.recomputeLayout();
+  }
+
+  /**
+   * 获取是否开启了可见性感知
+   */
+  public getVisibilityAware(): boolean {
+    return this.options.visibilityAware;
+  }
+
+  /**
+   * 部件显隐变化后调用：开启可见性感知时按当前可见部件重新计算中心、尺寸、权重与方向
+   */
+  public refreshVisibility(): void {
+    if (!this.options.visibilityAware) return;
+    this.recomputeLayout();
+  }
+
+  /**
+   * 在静止状态下重新计算模型中心、爆炸中心、方向与各模式的预计算，再恢复当前进度
+   * @private
+   */
+  private recomputeLayout(): void {
+    this.cancelAnimation();
+
+    this.resetToOriginalPositions();
+    this.measureParts();
+    this.resolveExplosionCenter();
+    this.calculateDirections();
+    this.calculateDerivedData();
+
+    this.updateExplodedPositions();
+    this.render();
+  }
+
+  /**
+   * 获取当前爆炸中心（世界坐标）
+   */
+  public getExplosionCenter(): Vector3 {
+    return this.explosionCenter.clone();
+  }
+
+  /**
+   * 设置局部聚焦爆炸配置，传入 null 恢复整体爆炸
+   * @param focus 聚焦配置
+   */
+  public setFocus(focus: FocusExplosion | null): void {
+    this.options.focus = focus;
+
+    this.updateExplodedPositions();
+    this.render();
+  }
+
+  /**
+   * 获取当前局部聚焦爆炸配置
+   */
+  public getFocus(): FocusExplosion | null {
+    return this.options.focus;
+  }
+
+  /**
+   * 设置局部聚焦的目标部件（通常为选中的网格），传入 null 取消聚焦
+   * 仅在设置了聚焦配置时生效
+   * @param target 目标部件
+   */
+  public setFocusTarget(target: Object3D | null): void {
+    this.focusTarget = target;
+    this.resolveFocus();
+
+    if (this.options.focus) {
+      this.updateExplodedPositions();
+      this.render();
+    }
+  }
+
+  /**
+   * 获取当前聚焦的目标部件
+   */
+  public getFocusTarget(): Object3D | null {
+    return this.focusTarget;
+  }
+
+  /**
+   * 设置爆炸序列（分阶段或交错），传入 null 恢复所有部件同步移动
+   * @param sequence 序列配置
+   */
+  public setSequence(sequence: ExplosionSequence | null): void {
+    this.options.sequence = sequence;
+    this.calculateSequenceWindows();
+
+    this.updateExplodedPositions();
+    this.render();
+  }
+
+  /**
+   * 获取当前爆炸序列
+   * @returns 序列配置
+   */
+  public getSequence(): ExplosionSequence | null {
+    return this.options.sequence;
+  }
+
+  /**
+   * 设置部件随爆炸进度旋转的全局配置（自转或向外倾斜），传入 null 关闭旋转
+   * 部件级配置可通过 setPartOverride 的 rotation 字段覆盖
+   * @param rotation 旋转配置
+   */
+  public setRotation(rotation: PartRotation | null): void {
+    this.options.rotation = rotation;
+
+    this.updateExplodedPositions();
+    this.render();
+  }
+
+  /**
+   * 获取当前旋转配置
+   */
+  public getRotation(): PartRotation | null {
+    return this.options.rotation;
+  }
+
+  /**
+   * 设置爆炸粒度，重新组织爆炸单位（每个单位作为刚体整体移动）
+   * @param granularity 爆炸粒度
+   */
+  public setGranularity(granularity: ExplosionGranularity): void {
+    this.cancelAnimation();
+
+    // 先让旧单位回到原位，再按新粒度重建
+    this.resetToOriginalPositions();
+    this.options.granularity = granularity;
+
+    this.buildUnits();
+    this.calculateDerivedData();
+
+    this.updateExplodedPositions();
+    this.render();
+  }
+
+  /**
+   * 获取当前爆炸粒度
+   */
+  public getGranularity(): ExplosionGranularity {
+    return this.options.granularity;
+  }
+
+  /**
+   * 为匹配的部件设置爆炸覆盖（锁定、排除、自定义方向或距离缩放）
+   * 覆盖在切换模式、轴向与模型后依然生效；同一选择器重复设置时会合并配置
+   * @param selector 部件选择器（网格引用、名称、正则或谓词）
+   * @param override 覆盖配置
+   */
+  public setPartOverride(selector: PartSelector, override: PartOverride): void {
+    const existing = this.overrideRules.find(rule => rule.selector === selector);
+    if (existing) {
+      existing.override = { ...existing.override, ...override };
+    } else {
+      this.overrideRules.push({ selector, override: { ...override } });
+    }
+    this.applyPartOverrides();
+  }
+
+  /**
+   * 移除指定选择器的覆盖配置
+   * @param selector 添加时使用的同一选择器
+   */
+  public removePartOverride(selector: PartSelector): void {
+    this.overrideRules = this.overrideRules.filter(rule => rule.selector !== selector);
+    this.applyPartOverrides();
+  }
+
+  /**
+   * 清除所有部件覆盖配置
+   */
+  public clearPartOverrides(): void {
+    this.overrideRules = [];
+    this.applyPartOverrides();
+  }
+
+  /**
+   * 获取网格最终生效的覆盖配置
+   * @param mesh 网格
+   * @returns 覆盖配置，未设置时返回 null
+   */
+  public getPartOverride(mesh: Object3D): PartOverride | null {
+    return this.partOverrides.get(mesh) ?? null;
+  }
+
+  /**
+   * 获取模型主轴
+   * @returns 三个相互正交的单位向量，按顶点分布方差从大到小排列
+   */
+  public getPrincipalAxes(): Vector3[] {
+    return this.principalAxes.map(axis => axis.clone());
+  }
+
+  /**
+   * 获取当前轴向向量
+   * @returns 轴向向量
+   */
+  public getAxialVector(): Vector3 {
+    return this.options.axialVector;
+  }
+
+  /**
+   * 重置模型到原始状态
+   */
+  public reset(): void {
+    this.cancelAnimation();
+    this.progress = 0;
+    
+    // 恢复所有网格到原始位置
+    this.resetToOriginalPositions();
+    
+    // 触发进度变化回调
+    if (this.onProgressChangeCallback) {
+      this.onProgressChangeCallback(this.progress);
+    }
+  }
+  
+  /**
+   * 将所有网格恢复到原始位置
+   * @private
+   */
+  private resetToOriginalPositions(): void {
+    // 恢复所有可爆炸网格的原始变换
+    for (const mesh of this.explodableMeshes) {
+      this.restoreOriginalTransform(mesh);
+    }
+    this.syncInstances();
+    this.rotatedUnits.clear();
+  }
+
+  /**
+   * 将单个网格恢复到原始变换
+   * @private
+   */
+  private restoreOriginalTransform(mesh: Object3D): void {
+    const originalPosition = this.originalPositions.get(mesh);
+    const originalRotation = this.originalRotations.get(mesh);
+    const originalScale = this.originalScales.get(mesh);
+    
+    if (originalPosition) {
+      // 同样需要考虑局部坐标转换
+      const targetPosition = originalPosition.clone();
+      if (mesh.parent) {
+        mesh.parent.worldToLocal(targetPosition);
+      }
+      mesh.position.copy(targetPosition);
+    }
+    
+    if (originalRotation && mesh.rotation) {
+      mesh.rotation.set(originalRotation.x, originalRotation.y, originalRotation.z);
+    }
+    
+    if (originalScale && mesh.scale) {
+      mesh.scale.set(originalScale.x, originalScale.y, originalScale.z);
+    }
+
+    // 虚拟分组的成员一并恢复
+    this.unitMembers.get(mesh)?.forEach(member => this.restoreOriginalTransform(member));
+  }
+  
+  /**
+   * 设置进度变化回调
+   * @param callback 回调函数
+   */
+  public setProgressChangeCallback(callback: ProgressChangeCallback): void {
+    this.onProgressChangeCallback = callback;
+  }
+  
+  /**
+   * 设置爆炸系数（控制爆炸程度的倍率）
+   * 
+   * @param multiplier - 爆炸系数，默认值为 1
+   */
+  public setMultiplier(multiplier: number): void {
+    this.cancelAnimation();
+    this.multiplier = clamp(multiplier, EXPLODER_CONSTANTS.MULTIPLIER.MIN, EXPLODER_CONSTANTS.MULTIPLIER.MAX);
+    
+    // 始终更新模型位置（即使进度为 0，因为之后进度变化会用到这个系数）
+    this.updateExplodedPositions();
+    
+    // 重新渲染场景
+    this.render();
+  }
+
+  /**
+   * 计算在当前模式下完全爆炸时，使所有部件包围盒互不重叠的最小爆炸系数
+   * 从最小系数开始按步长搜索，若最大系数仍无法分离（如共线部件的径向爆炸）则视为失败
+   * 
+   * @param apply - 是否立即应用该系数（默认为 true，失败时不修改当前系数）
+   * @returns 找到的爆炸系数，无法分离时返回 null
+   */
+  public autoFitMultiplier(apply = true): number | null {
+    const meshes = this.explodableMeshes.filter(mesh => !this.partOverrides.get(mesh)?.excluded && this.restBoxes.has(mesh));
+    const boxes = meshes.map(mesh => this.restBoxes.get(mesh)!);
+    const margin = this.modelRadius * EXPLODER_CONSTANTS.COLLISION.TOLERANCE;
+    const { MIN, MAX, STEP } = EXPLODER_CONSTANTS.MULTIPLIER;
+
+    const savedProgress = this.progress;
+    const savedMultiplier = this.multiplier;
+    let fitted: number | null = null;
+
+    try {
+      // 以完全爆炸状态评估
+      this.progress = EXPLODER_CONSTANTS.PROGRESS.MAX;
+      const steps = Math.round((MAX - MIN) / STEP);
+      for (let i = 0; i <= steps; i++) {
+        this.multiplier = MIN + i * STEP;
+        const offsets = meshes.map(mesh => {
+          const target = this.computeTargetPosition(mesh, this.mode);
+          const original = this.originalPositions.get(mesh);
+          return target && original ? target.sub(original) : new Vector3();
+        });
+        if (!hasOverlaps(boxes, offsets, margin)) {
+          fitted = this.multiplier;
+          break;
+        }
+      }
+    } finally {
+      this.progress = savedProgress;
+      this.multiplier = savedMultiplier;
+    }
+
+    if (fitted === null) {
+      console.warn(`GLTFExploder: 爆炸模式 "${this.mode}" 下最大爆炸系数 ${MAX} 仍无法分离所有部件，已保留当前系数`);
+      return null;
+    }
+
+    // 消除浮点累加误差
+    fitted = parseFloat(fitted.toFixed(2));
+    if (apply) {
+      this.setMultiplier(fitted);
+    }
+    return fitted;
+  }
+
+  /**
+   * 获取当前爆炸系数
+   * @returns 当前爆炸系数
+   */
+  public getMultiplier(): number {
+    return this.multiplier;
+  }
+
+  /**
+   * 获取当前进度
+   * @returns 当前进度值（0-1）
+   */
+  public getProgress(): number {
+    return this.progress;
+  }
+  
+  /**
+   * 获取模型中心点
+   * @returns 模型中心点坐标
+   */
+  public getModelCenter(): Vector3 {
+    return this.modelCenter.clone();
+  }
+
+  /**
+   * 获取静止状态下的模型包围盒
+   * @returns 模型包围盒
+   */
+  public getModelBounds(): Box3 {
+    return this.modelBounds.clone();
+  }
+
+  /**
+   * 获取模型参考半径（静止包围球半径）
+   * @returns 模型半径
+   */
+  public getModelRadius(): number {
+    return this.modelRadius;
+  }
+  
+  /**
+   * 设置模型的放置偏移：在朝向归一化与自适应之后整体平移模型，用于多模型并排布局
+   * 会按新位置重新计算爆炸数据，爆炸进度归零
+   * @param offset 世界坐标偏移
+   */
+  public setPlacement(offset: Vector3): void {
+    this.placement.copy(offset);
+    this.setModel(this.model);
+  }
+
+  /**
+   * 获取模型的放置偏移
+   */
+  public getPlacement(): Vector3 {
+    return this.placement.clone();
+  }
+
+  /**
+   * 获取爆炸的模型
+   * @returns 模型根节点
+   */
+  public getModel(): Object3D {
+    return this.model;
+  }
+
+  /**
+   * 获取配置选项
+   * @returns 配置选项
+   */
+  public getOptions(): Required<ExploderOptions> {
+    return this.options;
+  }
+
+  /**
+   * 获取视觉缩放比例
+   */
+  public getVisualScale(): number {
+    return this.visualScale;
+  }
+  
+  /**
+   * 渲染钩子：模型变化后调用，无头引擎中不做任何事
+   * @protected
+   */
+  protected render(): void {
+    // 由 ExploderCore 实现
+  }
+
+  /**
+   * 销毁实例，清理资源
+   */
+  public dispose(): void {
+    // 1. 重置模型到原始状态，并还原宿主模型的变换
+    this.reset();
+    this.restoreHostTransform();
+    
+    // 2. 清空所有缓存的数据
+    this.originalPositions.clear();
+    this.originalRotations.clear();
+    this.originalScales.clear();
+    this.restParentMatrices.clear();
+    this.explodeDirections.clear();
+    this.sequenceWindows.clear();
+    this.partOverrides.clear();
+    this.restBoxes.clear();
+    this.modeContexts.clear();
+    this.overrideRules = [];
+    this.explodableMeshes = [];
+    this.leafMeshes = [];
+    this.instanceProxies = [];
+    this.unitMembers.clear();
+    this.unitLeaves.clear();
+    this.rotatedUnits.clear();
+    this.focusTarget = null;
+    this.focusUnit = null;
+    this.focusCenter = null;
+    this.principalAxes = [];
+    
+    // 3. 移除回调
+    this.onProgressChangeCallback = null;
+  }
+}
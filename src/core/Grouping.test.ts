@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { Mesh, MeshBasicMaterial, Object3D } from 'three';
+import { buildExplosionUnits } from './Grouping';
+import { ExplosionEngine } from './Engine';
+import { createAssembly, getPart, worldPosition, PART_NAMES } from '../test/fixtures';
+
+/**
+ * 按装配体中的网格部件名称收集叶子网格
+ */
+function getLeaves(model: Object3D): Object3D[] {
+  return PART_NAMES.map(name => getPart(model, name));
+}
+
+function names(objects: Object3D[]): string[] {
+  return objects.map(object => object.name);
+}
+
+describe('buildExplosionUnits', () => {
+  it('mesh 粒度下每个网格各自成为单位', () => {
+    const model = createAssembly();
+    const { units, members } = buildExplosionUnits(getLeaves(model), model, { type: 'mesh' });
+    expect(names(units)).toEqual(PART_NAMES);
+    expect(members.size).toBe(0);
+  });
+
+  it('topLevel 粒度按模型根节点的直接子节点分组', () => {
+    const model = createAssembly();
+    const { units } = buildExplosionUnits(getLeaves(model), model, { type: 'topLevel' });
+    expect(names(units)).toEqual(['Base', 'Lid', 'Screws']);
+  });
+
+  it('depth 粒度取指定深度的祖先，网格更浅时取自身', () => {
+    const model = createAssembly();
+    expect(names(buildExplosionUnits(getLeaves(model), model, { type: 'depth', depth: 1 }).units))
+      .toEqual(['Base', 'Lid', 'Screws']);
+    expect(names(buildExplosionUnits(getLeaves(model), model, { type: 'depth', depth: 2 }).units))
+      .toEqual(PART_NAMES);
+  });
+
+  it('name 粒度取名称匹配的最外层祖先', () => {
+    const model = createAssembly();
+    const { units } = buildExplosionUnits(getLeaves(model), model, { type: 'name', pattern: /^Screw/ });
+    expect(names(units)).toEqual(['Base', 'Lid', 'Screws']);
+
+    const exact = buildExplosionUnits(getLeaves(model), model, { type: 'name', pattern: 'ScrewLeft' });
+    expect(names(exact.units)).toEqual(PART_NAMES);
+  });
+
+  it('material 粒度按首个材质聚类，其余网格作为附属成员', () => {
+    const model = createAssembly();
+    const shared = new MeshBasicMaterial();
+    (getPart(model, 'ScrewLeft') as Mesh).material = shared;
+    (getPart(model, 'ScrewRight') as Mesh).material = shared;
+
+    const { units, members } = buildExplosionUnits(getLeaves(model), model, { type: 'material' });
+    expect(names(units)).toEqual(['Base', 'Lid', 'ScrewLeft']);
+    expect(names(members.get(getPart(model, 'ScrewLeft'))!)).toEqual(['ScrewRight']);
+  });
+});
+
+describe('爆炸粒度', () => {
+  it('同一单位中的网格作为刚体整体移动', () => {
+    const model = createAssembly();
+    const engine = new ExplosionEngine(model, { adaptModel: false, granularity: { type: 'topLevel' } });
+    const screws = getPart(model, 'Screws');
+    const left = getPart(model, 'ScrewLeft');
+    const right = getPart(model, 'ScrewRight');
+    const gap = worldPosition(right).sub(worldPosition(left));
+    const rest = worldPosition(screws);
+
+    engine.setProgress(1);
+    expect(worldPosition(screws).distanceTo(rest)).toBeGreaterThan(0);
+    expect(worldPosition(right).sub(worldPosition(left)).distanceTo(gap)).toBeCloseTo(0, 6);
+    expect(left.position.toArray()).toEqual([-1.5, 0, 0.5]);
+    engine.dispose();
+  });
+
+  it('切换粒度后旧单位回到原位', () => {
+    const model = createAssembly();
+    const engine = new ExplosionEngine(model, { adaptModel: false, granularity: { type: 'topLevel' } });
+    const screws = getPart(model, 'Screws');
+    const rest = worldPosition(screws);
+
+    engine.setProgress(1);
+    engine.setGranularity({ type: 'mesh' });
+    expect(worldPosition(screws).distanceTo(rest)).toBeCloseTo(0, 6);
+    expect(worldPosition(getPart(model, 'ScrewLeft')).distanceTo(rest)).toBeGreaterThan(0);
+    engine.dispose();
+  });
+});
@@ -0,0 +1,187 @@
+import { Object3D, Material, SkinnedMesh, Skeleton } from 'three';
+import { ExplosionGranularity } from './types';
+
+/**
+ * 爆炸单位构建结果
+ */
+export interface ExplosionUnits {
+  /** 爆炸单位（每个单位作为刚体移动） */
+  units: Object3D[];
+  /** 虚拟分组的附属成员：代表单位 -> 随其同步位移的其他网格（如材质聚类） */
+  members: Map<Object3D, Object3D[]>;
+}
+
+/**
+ * 根据爆炸粒度将叶子网格组织为爆炸单位
+ * @param meshes 可爆炸的叶子网格
+ * @param model 模型根节点
+ * @param granularity 爆炸粒度
+ * @returns 爆炸单位
+ */
+export function buildExplosionUnits(
+  meshes: Object3D[],
+  model: Object3D,
+  granularity: ExplosionGranularity
+): ExplosionUnits {
+  return attachSkeletons(groupUnits(meshes, model, granularity));
+}
+
+/**
+ * 按爆炸粒度分组
+ * @private
+ */
+function groupUnits(meshes: Object3D[], model: Object3D, granularity: ExplosionGranularity): ExplosionUnits {
+  switch (granularity.type) {
+    case 'topLevel':
+      return collectAncestorUnits(meshes, mesh => getAncestorAtDepth(mesh, model, 1));
+
+    case 'depth':
+      return collectAncestorUnits(meshes, mesh => getAncestorAtDepth(mesh, model, Math.max(1, granularity.depth)));
+
+    case 'name': {
+      const pattern = granularity.pattern;
+      const test = (name: string) => (typeof pattern === 'string' ? name === pattern : pattern.test(name));
+      return collectAncestorUnits(meshes, mesh => getOutermostMatchingAncestor(mesh, model, test));
+    }
+
+    case 'material':
+      return clusterByMaterial(meshes);
+
+    default:
+      return { units: meshes.slice(), members: new Map() };
+  }
+}
+
+/**
+ * 蒙皮网格的顶点由骨骼驱动，移动网格本身不会改变显示位置，
+ * 因此让骨架的根骨骼作为附属成员随单位移动；共享同一骨架的蒙皮网格合并为一个单位，避免骨骼被重复位移
+ * @private
+ */
+function attachSkeletons({ units, members }: ExplosionUnits): ExplosionUnits {
+  const skeletonUnits = new Map<Skeleton, Object3D>();
+  const result: Object3D[] = [];
+
+  for (const unit of units) {
+    const skeleton = (unit as SkinnedMesh).isSkinnedMesh ? (unit as SkinnedMesh).skeleton : null;
+    if (!skeleton) {
+      result.push(unit);
+      continue;
+    }
+
+    const representative = skeletonUnits.get(skeleton);
+    const unitMembers = members.get(unit) ?? [];
+    members.delete(unit);
+    if (representative) {
+      members.get(representative)!.push(unit, ...unitMembers);
+      continue;
+    }
+
+    // 根骨骼：父节点不属于该骨架的骨骼（已是单位祖先的骨骼会带着单位一起移动，无需重复）
+    const bones = new Set<Object3D>(skeleton.bones);
+    const roots = skeleton.bones.filter(bone => !(bone.parent && bones.has(bone.parent)) && !isAncestor(bone, unit));
+    skeletonUnits.set(skeleton, unit);
+    members.set(unit, [...unitMembers, ...roots]);
+    result.push(unit);
+  }
+
+  // 没有附属成员的单位不保留空分组
+  members.forEach((list, unit) => {
+    if (list.length === 0) members.delete(unit);
+  });
+  return { units: result, members };
+}
+
+/**
+ * 将每个网格映射到一个祖先节点并去重
+ * @private
+ */
+function collectAncestorUnits(meshes: Object3D[], resolve: (mesh: Object3D) => Object3D): ExplosionUnits {
+  const units: Object3D[] = [];
+  const seen = new Set<Object3D>();
+  for (const mesh of meshes) {
+    const unit = resolve(mesh);
+    if (!seen.has(unit)) {
+      seen.add(unit);
+      units.push(unit);
+    }
+  }
+  return { units, members: new Map() };
+}
+
+/**
+ * 获取网格在装配树中指定深度的祖先（模型根节点的直接子节点深度为 1）
+ * 网格本身比目标深度更浅时返回网格自身
+ * @private
+ */
+function getAncestorAtDepth(mesh: Object3D, model: Object3D, depth: number): Object3D {
+  const chain: Object3D[] = [];
+  let current: Object3D | null = mesh;
+  while (current && current !== model) {
+    chain.unshift(current);
+    current = current.parent;
+  }
+  // 网格不在模型内部（异常情况）时原样返回
+  if (!current) return mesh;
+  return chain[Math.min(depth, chain.length) - 1] ?? mesh;
+}
+
+/**
+ * 获取名称匹配的最外层祖先（含自身），无匹配时返回网格自身
+ * @private
+ */
+function getOutermostMatchingAncestor(mesh: Object3D, model: Object3D, test: (name: string) => boolean): Object3D {
+  let match: Object3D = mesh;
+  let current: Object3D | null = mesh;
+  while (current && current !== model) {
+    if (current.name && test(current.name)) {
+      match = current;
+    }
+    current = current.parent;
+  }
+  return match;
+}
+
+/**
+ * 按首个材质聚类网格，首个网格作为代表单位
+ * @private
+ */
+function clusterByMaterial(meshes: Object3D[]): ExplosionUnits {
+  const clusters = new Map<string, Object3D[]>();
+  for (const mesh of meshes) {
+    const material = (mesh as Object3D & { material?: Material | Material[] }).material;
+    const first = Array.isArray(material) ? material[0] : material;
+    const key = first ? first.uuid : mesh.uuid;
+    const cluster = clusters.get(key);
+    if (cluster) {
+      cluster.push(mesh);
+    } else {
+      clusters.set(key, [mesh]);
+    }
+  }
+
+  const units: Object3D[] = [];
+  const members = new Map<Object3D, Object3D[]>();
+  for (const cluster of clusters.values()) {
+    const [representative, ...rest] = cluster;
+    // 祖先已在同一组中的网格会随祖先移动，不能重复位移
+    const others = rest.filter(mesh => !cluster.some(other => other !== mesh && isAncestor(other, mesh)));
+    units.push(representative);
+    if (others.length > 0) {
+      members.set(representative, others);
+    }
+  }
+  return { units, members };
+}
+
+/**
+ * 判断 ancestor 是否是 object 的祖先
+ * @private
+ */
+function isAncestor(ancestor: Object3D, object: Object3D): boolean {
+  let current = object.parent;
+  while (current) {
+    if (current === ancestor) return true;
+    current = current.parent;
+  }
+  return false;
+}
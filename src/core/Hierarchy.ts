@@ -0,0 +1,117 @@
+import { Object3D, Vector3, Box3, Sphere } from 'three';
+import { EXPLODER_CONSTANTS } from './types';
+
+/**
+ * 嵌套爆炸中的一级位移：部件所在的某一层节点相对其父节点中心的展开
+ */
+export interface NestedStep {
+  /** 展开方向（已归一化，从父节点中心指向该节点中心） */
+  direction: Vector3;
+  /** 父节点的包围球半径（位移量与父节点尺寸成比例） */
+  scale: number;
+  /** 层级（0 为最外层） */
+  level: number;
+}
+
+/**
+ * 嵌套爆炸布局
+ */
+export interface NestedLayout {
+  /** 每个部件从外到内的逐级位移 */
+  steps: Map<Object3D, NestedStep[]>;
+  /** 总层数 */
+  levels: number;
+}
+
+/**
+ * 装配树节点
+ */
+interface TreeNode {
+  object: Object3D;
+  parent: TreeNode | null;
+  children: Set<TreeNode>;
+  /** 节点下的所有爆炸单位 */
+  units: Object3D[];
+  center: Vector3;
+  radius: number;
+}
+
+/**
+ * 构建嵌套爆炸布局：每个分组绕自身中心展开子节点，分组整体再绕父节点中心展开
+ * 只有一个子节点的中间节点不形成新层级
+ *
+ * @param units 爆炸单位
+ * @param model 模型根节点
+ * @param restBoxes 静止包围盒
+ * @param directions 爆炸方向（节点与父节点中心重合时的回退方向）
+ */
+export function buildNestedLayout(
+  units: Object3D[],
+  model: Object3D,
+  restBoxes: ReadonlyMap<Object3D, Box3>,
+  directions: ReadonlyMap<Object3D, Vector3>
+): NestedLayout {
+  const root: TreeNode = { object: model, parent: null, children: new Set(), units: [], center: new Vector3(), radius: 0 };
+  const nodes = new Map<Object3D, TreeNode>([[model, root]]);
+  const paths = new Map<Object3D, TreeNode[]>();
+
+  // 1. 按祖先链建立装配树
+  for (const unit of units) {
+    const chain: Object3D[] = [];
+    let current: Object3D | null = unit;
+    while (current && current !== model) {
+      chain.unshift(current);
+      current = current.parent;
+    }
+
+    let parent = root;
+    root.units.push(unit);
+    const path: TreeNode[] = [];
+    for (const object of chain) {
+      let node = nodes.get(object);
+      if (!node) {
+        node = { object, parent, children: new Set(), units: [], center: new Vector3(), radius: 0 };
+        nodes.set(object, node);
+        parent.children.add(node);
+      }
+      node.units.push(unit);
+      path.push(node);
+      parent = node;
+    }
+    paths.set(unit, path);
+  }
+
+  // 2. 计算每个节点的静止中心与尺寸
+  for (const node of nodes.values()) {
+    const box = new Box3();
+    node.units.forEach(unit => {
+      const restBox = restBoxes.get(unit);
+      if (restBox) box.union(restBox);
+    });
+    if (box.isEmpty()) continue;
+    box.getCenter(node.center);
+    node.radius = box.getBoundingSphere(new Sphere()).radius;
+  }
+
+  // 3. 沿路径生成逐级位移
+  const steps = new Map<Object3D, NestedStep[]>();
+  let levels = 0;
+  for (const [unit, path] of paths) {
+    const unitSteps: NestedStep[] = [];
+    for (const node of path) {
+      const parent = node.parent!;
+      // 父节点只有这一个子节点时，两者中心重合，不形成新层级
+      if (parent.children.size < 2) continue;
+
+      const direction = node.center.clone().sub(parent.center);
+      if (direction.length() < EXPLODER_CONSTANTS.DIRECTION.MIN_LENGTH) {
+        direction.copy(directions.get(node.units[0]) ?? new Vector3(0, 1, 0));
+      }
+      unitSteps.push({ direction: direction.normalize(), scale: parent.radius, level: unitSteps.length });
+    }
+    steps.set(unit, unitSteps);
+    levels = Math.max(levels, unitSteps.length);
+  }
+
+  return { steps, levels };
+}
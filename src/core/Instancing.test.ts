@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import {
+  Bone, BoxGeometry, BufferGeometry, Float32BufferAttribute, Group, InstancedMesh, Line, LineBasicMaterial, Matrix4,
+  MeshBasicMaterial, Object3D, Points, PointsMaterial, Skeleton, SkinnedMesh, Uint16BufferAttribute, Vector3
+} from 'three';
+import { createInstanceProxies } from './Instancing';
+import { buildExplosionUnits } from './Grouping';
+import { ExplosionEngine } from './Engine';
+import { addBox, expectMatrixClose, getPart, worldPosition } from '../test/fixtures';
+
+/**
+ * 创建沿 X 轴排列三个实例的实例网格
+ */
+function createInstances(): InstancedMesh {
+  const mesh = new InstancedMesh(new BoxGeometry(1, 1, 1), new MeshBasicMaterial(), 3);
+  mesh.name = 'Bolts';
+  [-2, 0, 2].forEach((x, i) => mesh.setMatrixAt(i, new Matrix4().makeTranslation(x, 0, 0)));
+  return mesh;
+}
+
+function getInstanceMatrix(mesh: InstancedMesh, index: number): Matrix4 {
+  const matrix = new Matrix4();
+  mesh.getMatrixAt(index, matrix);
+  return matrix;
+}
+
+/**
+ * 创建由单根骨骼驱动的蒙皮网格（骨骼与网格同为模型根节点的子节点，与 glTF 导出一致）
+ */
+function createSkinned(root: Object3D, name: string, skeleton?: Skeleton): SkinnedMesh {
+  const geometry = new BoxGeometry(1, 1, 1);
+  const count = geometry.getAttribute('position').count;
+  geometry.setAttribute('skinIndex', new Uint16BufferAttribute(new Array(count * 4).fill(0), 4));
+  geometry.setAttribute('skinWeight', new Float32BufferAttribute(new Array(count).fill([1, 0, 0, 0]).flat(), 4));
+
+  const mesh = new SkinnedMesh(geometry, new MeshBasicMaterial());
+  mesh.name = name;
+  root.add(mesh);
+  if (!skeleton) {
+    const bone = new Bone();
+    bone.name = `${name}Bone`;
+    root.add(bone);
+    skeleton = new Skeleton([bone]);
+  }
+  root.updateMatrixWorld(true);
+  mesh.bind(skeleton);
+  return mesh;
+}
+
+describe('InstanceProxy', () => {
+  it('代理的局部变换即实例矩阵，可写回并精确还原', () => {
+    const mesh = createInstances();
+    const proxies = createInstanceProxies(mesh);
+    expect(proxies.map(proxy => proxy.name)).toEqual(['Bolts[0]', 'Bolts[1]', 'Bolts[2]']);
+    expect(proxies[2].position.toArray()).toEqual([2, 0, 0]);
+    // 代理不加入实例网格的子节点
+    expect(mesh.children).toHaveLength(0);
+
+    proxies[2].position.set(5, 1, 0);
+    proxies[2].writeInstance();
+    expectMatrixClose(getInstanceMatrix(mesh, 2), new Matrix4().makeTranslation(5, 1, 0));
+
+    proxies[2].restoreInstance();
+    expectMatrixClose(getInstanceMatrix(mesh, 2), new Matrix4().makeTranslation(2, 0, 0));
+  });
+});
+
+describe('非普通网格部件', () => {
+  it('实例网格的每个实例独立爆炸，dispose 后还原实例矩阵', () => {
+    const root = new Group();
+    const mesh = createInstances();
+    root.add(mesh);
+    root.updateMatrixWorld(true);
+    const engine = new ExplosionEngine(root, { adaptModel: false });
+
+    engine.setProgress(1);
+    const left = new Vector3().setFromMatrixPosition(getInstanceMatrix(mesh, 0));
+    const right = new Vector3().setFromMatrixPosition(getInstanceMatrix(mesh, 2));
+    expect(left.x).toBeLessThan(-2);
+    expect(right.x).toBeGreaterThan(2);
+    expect(mesh.instanceMatrix.version).toBeGreaterThan(0);
+
+    engine.dispose();
+    [-2, 0, 2].forEach((x, i) => expectMatrixClose(getInstanceMatrix(mesh, i), new Matrix4().makeTranslation(x, 0, 0)));
+  });
+
+  it('蒙皮网格的根骨骼随网格同步位移', () => {
+    const root = new Group();
+    const skinned = createSkinned(root, 'Arm');
+    skinned.position.set(-2, 0, 0);
+    getPart(root, 'ArmBone').position.set(-2, 0, 0);
+    addBox(root, 'Body', [1, 1, 1], [2, 0, 0]);
+    root.updateMatrixWorld(true);
+
+    const engine = new ExplosionEngine(root, { adaptModel: false });
+    const meshRest = worldPosition(skinned);
+    const boneRest = worldPosition(getPart(root, 'ArmBone'));
+
+    engine.setProgress(1);
+    const meshOffset = worldPosition(skinned).sub(meshRest);
+    const boneOffset = worldPosition(getPart(root, 'ArmBone')).sub(boneRest);
+    expect(meshOffset.length()).toBeGreaterThan(0);
+    expect(boneOffset.distanceTo(meshOffset)).toBeCloseTo(0, 6);
+    engine.dispose();
+  });
+
+  it('共享骨架的蒙皮网格合并为一个单位', () => {
+    const root = new Group();
+    const first = createSkinned(root, 'Body');
+    const second = createSkinned(root, 'Cloth', first.skeleton);
+
+    const { units, members } = buildExplosionUnits([first, second], root, { type: 'mesh' });
+    expect(units).toEqual([first]);
+    expect(members.get(first)).toEqual([getPart(root, 'BodyBone'), second]);
+  });
+
+  it('点云与线条作为部件参与爆炸', () => {
+    const root = new Group();
+    const geometry = new BufferGeometry().setAttribute('position', new Float32BufferAttribute([0, 0, 0, 1, 0, 0], 3));
+    const points = new Points(geometry, new PointsMaterial());
+    points.position.set(-3, 0, 0);
+    const line = new Line(geometry.clone(), new LineBasicMaterial());
+    line.position.set(3, 0, 0);
+    root.add(points, line);
+    root.updateMatrixWorld(true);
+
+    const engine = new ExplosionEngine(root, { adaptModel: false });
+    engine.setProgress(1);
+    expect(points.position.x).toBeLessThan(-3);
+    expect(line.position.x).toBeGreaterThan(3);
+    engine.dispose();
+  });
+});
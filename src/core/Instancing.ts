@@ -0,0 +1,78 @@
+import { Object3D, InstancedMesh, Matrix4, BufferGeometry, Box3, Sphere } from 'three';
+
+/**
+ * InstancedMesh 中单个实例的代理节点
+ * 代理以实例网格为父节点但不加入其 children，不改变场景图；
+ * 其局部变换即实例矩阵，爆炸器像移动普通部件一样移动代理，再把变换写回实例矩阵
+ */
+export class InstanceProxy extends Object3D {
+  public readonly isInstanceProxy = true;
+  /** 所属的实例网格 */
+  public readonly instancedMesh: InstancedMesh;
+  /** 实例索引 */
+  public readonly instanceId: number;
+  /** 实例共享的几何体（用于计算静止包围盒与几何中心） */
+  public readonly geometry: BufferGeometry;
+  /** 接入前的实例矩阵，用于精确还原 */
+  private readonly restMatrix = new Matrix4();
+
+  constructor(instancedMesh: InstancedMesh, instanceId: number) {
+    super();
+    this.instancedMesh = instancedMesh;
+    this.instanceId = instanceId;
+    this.geometry = instancedMesh.geometry;
+    this.name = `${instancedMesh.name}[${instanceId}]`;
+
+    instancedMesh.getMatrixAt(instanceId, this.restMatrix);
+    this.restMatrix.decompose(this.position, this.quaternion, this.scale);
+    this.parent = instancedMesh;
+  }
+
+  /**
+   * 将代理的当前变换写回实例矩阵
+   */
+  public writeInstance(): void {
+    this.updateMatrix();
+    this.instancedMesh.setMatrixAt(this.instanceId, this.matrix);
+  }
+
+  /**
+   * 将实例矩阵精确还原为接入前的值
+   */
+  public restoreInstance(): void {
+    this.instancedMesh.setMatrixAt(this.instanceId, this.restMatrix);
+  }
+}
+
+/**
+ * 为实例网格的每个实例创建代理
+ * @param instancedMesh 实例网格
+ * @returns 实例代理
+ */
+export function createInstanceProxies(instancedMesh: InstancedMesh): InstanceProxy[] {
+  const proxies: InstanceProxy[] = [];
+  for (let i = 0; i < instancedMesh.count; i++) {
+    proxies.push(new InstanceProxy(instancedMesh, i));
+  }
+  return proxies;
+}
+
+/**
+ * 提交实例矩阵的修改：标记需要上传，并刷新已缓存的包围体，
+ * 避免爆炸后的实例被视锥剔除或无法拾取
+ * @param proxies 实例代理
+ */
+export function commitInstances(proxies: InstanceProxy[]): void {
+  const meshes = new Set(proxies.map(proxy => proxy.instancedMesh));
+  meshes.forEach(mesh => {
+    mesh.instanceMatrix.needsUpdate = true;
+    const bounded = mesh as InstancedMesh & {
+      boundingBox?: Box3 | null;
+      boundingSphere?: Sphere | null;
+      computeBoundingBox?: () => void;
+      computeBoundingSphere?: () => void;
+    };
+    if (bounded.boundingBox && bounded.computeBoundingBox) bounded.computeBoundingBox();
+    if (bounded.boundingSphere && bounded.computeBoundingSphere) bounded.computeBoundingSphere();
+  });
+}
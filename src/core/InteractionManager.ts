@@ -1,4 +1,4 @@
-import { Raycaster, Vector2, Scene, Camera, WebGLRenderer, Mesh, MeshStandardMaterial, Color, GridHelper, AxesHelper } from 'three';
+import { Raycaster, Vector2, Scene, Camera, WebGLRenderer, Mesh, MeshStandardMaterial, Color, GridHelper, AxesHelper, ArrowHelper, Vector3, Material, Box3 } from 'three';
 import { EXPLODER_CONSTANTS } from './types';
 import { createTextSprite } from './utils';
 
@@ -18,6 +18,8 @@ export class InteractionManager {
   private gridHelper: GridHelper | null = null;
   private axesHelper: AxesHelper | null = null;
   private axisLabels: { x: any, y: any, z: any } | null = null;
+  private axisIndicator: ArrowHelper | null = null;
+  private readonly gridSize: number = 10;
 
   // 当前选中的网格
   private selectedMesh: Mesh | null = null;
@@ -29,6 +31,7 @@ export class InteractionManager {
   private onSelect: ((mesh: Mesh | null) => void) | null = null;
   private onFitToView: ((meshes: Mesh[]) => void) | null = null;
   private onContextMenu: ((event: MouseEvent | TouchEvent, mesh: Mesh | null) => void) | null = null;
+  private onVisibilityChange: (() => void) | null = null;
 
   private longPressTimer: any = null;
   private readonly longPressDuration: number = 600; // 长按触发时长 (ms)
@@ -76,6 +79,13 @@ export class InteractionManager {
     this.onContextMenu = callback;
   }
 
+  /**
+   * 设置网格显隐变化回调（隐藏、隔离、全部显示之后触发）
+   */
+  public setOnVisibilityChange(callback: () => void): void {
+    this.onVisibilityChange = callback;
+  }
+
   /**
    * 设置交互是否启用
    * 当进行其他高优先级操作（如测量）时，可以禁用网格选中
@@ -93,7 +103,7 @@ export class InteractionManager {
    */
   private initHelpers(): void {
     // 1. 网格辅助器
-    this.gridHelper = new GridHelper(10, 20, 0xBBBBBB, 0xEEEEEE);
+    this.gridHelper = new GridHelper(this.gridSize, 20, 0xBBBBBB, 0xEEEEEE);
     this.scene.add(this.gridHelper);
 
     // 2. 坐标轴辅助器
@@ -126,6 +136,59 @@ export class InteractionManager {
     }
   }
 
+  /**
+   * 让网格与坐标轴贴合模型：网格作为地面放在模型底部，尺寸为模型水平尺寸的 2 倍
+   * @param bounds 静止状态下的模型包围盒（Y 轴朝上）
+   */
+  public fitHelpersToModel(bounds: Box3): void {
+    if (bounds.isEmpty()) return;
+
+    const size = bounds.getSize(new Vector3());
+    const center = bounds.getCenter(new Vector3());
+    const scale = Math.max(size.x, size.z, 1e-3) * 2 / this.gridSize;
+    const origin = new Vector3(center.x, bounds.min.y, center.z);
+
+    [this.gridHelper, this.axesHelper].forEach(helper => {
+      if (!helper) return;
+      helper.position.copy(origin);
+      helper.scale.setScalar(scale);
+    });
+    if (this.axisLabels) {
+      const offset = (this.gridSize / 2 + 0.5) * scale;
+      this.axisLabels.x.position.copy(origin).add(new Vector3(offset, 0, 0));
+      this.axisLabels.y.position.copy(origin).add(new Vector3(0, offset, 0));
+      this.axisLabels.z.position.copy(origin).add(new Vector3(0, 0, offset));
+    }
+  }
+
+  /**
+   * 设置爆炸轴指示箭头
+   * 箭头不参与拾取，并始终绘制在模型之上
+   * @param origin 箭头起点（爆炸中心）
+   * @param direction 轴向
+   * @param length 箭头长度
+   * @param visible 是否可见（仅使用轴向的模式显示）
+   */
+  public setAxisIndicator(origin: Vector3, direction: Vector3, length: number, visible: boolean): void {
+    if (!this.axisIndicator) {
+      this.axisIndicator = new ArrowHelper(new Vector3(0, 1, 0), new Vector3(), 1, EXPLODER_CONSTANTS.AXES.INDICATOR_COLOR);
+      this.axisIndicator.renderOrder = 999;
+      [this.axisIndicator.line, this.axisIndicator.cone].forEach(part => {
+        part.raycast = () => {};
+        part.renderOrder = 999;
+        const material = part.material as Material;
+        material.depthTest = false;
+        material.transparent = true;
+      });
+      this.scene.add(this.axisIndicator);
+    }
+
+    this.axisIndicator.position.copy(origin);
+    this.axisIndicator.setDirection(direction.clone().normalize());
+    this.axisIndicator.setLength(length, length * 0.15, length * 0.06);
+    this.axisIndicator.visible = visible;
+  }
+
   /**
    * 初始化事件监听
    */
@@ -317,6 +380,9 @@ export class InteractionManager {
       });
       this.isolatedMesh = mesh;
     }
+    if (this.onVisibilityChange) {
+      this.onVisibilityChange();
+    }
 
     // 无论进入还是退出隔离，都触发视图适配
     if (this.onFitToView) {
@@ -340,6 +406,9 @@ export class InteractionManager {
     if (!mesh.visible && this.selectedMesh === mesh) {
       this.deselectMesh();
     }
+    if (this.onVisibilityChange) {
+      this.onVisibilityChange();
+    }
   }
 
   /**
@@ -354,6 +423,9 @@ export class InteractionManager {
       }
     });
     this.isolatedMesh = null;
+    if (this.onVisibilityChange) {
+      this.onVisibilityChange();
+    }
 
     if (this.onFitToView) {
       this.onFitToView(visibleMeshes);
@@ -373,6 +445,9 @@ export class InteractionManager {
     if (this.isolatedMesh === mesh) {
       this.isolatedMesh = null;
     }
+    if (this.onVisibilityChange) {
+      this.onVisibilityChange();
+    }
   }
 
   /**
@@ -666,5 +741,13 @@ export class InteractionManager {
       });
       this.axisLabels = null;
     }
+    if (this.axisIndicator) {
+      this.scene.remove(this.axisIndicator);
+      [this.axisIndicator.line, this.axisIndicator.cone].forEach(part => {
+        part.geometry.dispose();
+        (part.material as Material).dispose();
+      });
+      this.axisIndicator = null;
+    }
   }
 }
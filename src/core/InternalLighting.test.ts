@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { AmbientLight, Light, PerspectiveCamera, Scene } from 'three';
+import { InternalLighting } from './InternalLighting';
+import { EXPLODER_CONSTANTS } from './types';
+
+function collectLights(scene: Scene): Light[] {
+  const lights: Light[] = [];
+  scene.traverse(node => {
+    if ((node as Light).isLight) lights.push(node as Light);
+  });
+  return lights;
+}
+
+describe('InternalLighting', () => {
+  it('灯光分布在场景与相机下，统一调整可见性与亮度', () => {
+    const scene = new Scene();
+    const camera = new PerspectiveCamera();
+    scene.add(camera);
+    const lighting = new InternalLighting(scene, camera);
+
+    const lights = collectLights(scene);
+    expect(lights).toHaveLength(6);
+    expect(camera.children).toHaveLength(1);
+
+    lighting.setVisible(false);
+    expect(lights.every(light => !light.visible)).toBe(true);
+
+    lighting.setExposure(2);
+    const ambient = lights.find(light => light instanceof AmbientLight)!;
+    expect(ambient.intensity).toBeCloseTo(EXPLODER_CONSTANTS.LIGHTS.INTERNAL.AMBIENT * 2, 6);
+  });
+
+  it('dispose 移除所有灯光及相机下的灯光组', () => {
+    const scene = new Scene();
+    const camera = new PerspectiveCamera();
+    scene.add(camera);
+    const lighting = new InternalLighting(scene, camera);
+
+    lighting.dispose();
+    expect(collectLights(scene)).toHaveLength(0);
+    expect(camera.children).toHaveLength(0);
+    expect(scene.children).toEqual([camera]);
+  });
+});
@@ -0,0 +1,128 @@
+import { Object3D, Scene, Camera, AmbientLight, DirectionalLight, HemisphereLight } from 'three';
+import { EXPLODER_CONSTANTS } from './types';
+
+/**
+ * 内部“无影灯”光照系统
+ * 每个爆炸器只创建一套：场景中有多个模型时共用，避免亮度叠加
+ */
+export class InternalLighting {
+  private scene: Scene;
+  private camera: Camera;
+  private lights: (AmbientLight | DirectionalLight | HemisphereLight)[] = [];
+  // 锁定在相机坐标系中的灯光组（含方向光及其目标点）
+  private lightGroup: Object3D;
+
+  /**
+   * 创建光照系统并加入场景
+   * @param scene Three.js 场景
+   * @param camera Three.js 相机（方向光挂在相机下，随视角同步移动）
+   */
+  constructor(scene: Scene, camera: Camera) {
+    this.scene = scene;
+    this.camera = camera;
+    this.lightGroup = new Object3D();
+    this.setup();
+  }
+
+  /**
+   * 初始化 6 点位“无影灯”光照系统
+   * 灯光锁定在相机前方，随视角同步移动，确保模型永远被均匀照射
+   * 照射方向只取决于相机，模型中心或尺寸变化（切换模型、显隐重算）时无需移动或重建
+   * @private
+   */
+  private setup(): void {
+    // 1. 基础保底光 (AmbientLight)，确保没有任何死角是纯黑的
+    const ambientLight = new AmbientLight(0xffffff, EXPLODER_CONSTANTS.LIGHTS.INTERNAL.AMBIENT);
+    this.scene.add(ambientLight);
+    this.lights.push(ambientLight);
+
+    // 2. 半球光，模拟环境反射
+    const hemisphereLight = new HemisphereLight(0xffffff, 0x444444, EXPLODER_CONSTANTS.LIGHTS.INTERNAL.HEMISPHERE);
+    this.scene.add(hemisphereLight);
+    this.lights.push(hemisphereLight);
+
+    // 3. 3 点位“无影灯”系统（锁定在相机坐标系）
+    // 我们将灯光添加为相机的子对象，这样它们会随相机旋转和移动
+    this.camera.add(this.lightGroup);
+
+    // 环绕相机的 3 个点位，形成等边三角形无影灯阵列
+    const count = 3;
+    const radius = 3;
+
+    for (let i = 0; i < count; i++) {
+      // 0, 120, 240 度排列
+      const angle = (i / count) * Math.PI * 2;
+      const x = Math.cos(angle) * radius;
+      const y = Math.sin(angle) * radius;
+
+      const light = new DirectionalLight(0xffffff, EXPLODER_CONSTANTS.LIGHTS.INTERNAL.DIRECTIONAL);
+
+      // 在相机本地坐标系中
+      light.position.set(x, y, 1);
+
+      const target = new Object3D();
+      target.position.set(0, 0, -5); // 统一指向相机正前方中心
+      this.lightGroup.add(target);
+      light.target = target;
+
+      this.lightGroup.add(light);
+      this.lights.push(light);
+    }
+
+    // 4. 右上角强力填充灯 (锁定在相机坐标系，主灯强度的 80%)
+    const fillLightIntensity = EXPLODER_CONSTANTS.LIGHTS.INTERNAL.DIRECTIONAL * 0.8;
+    const topRightFill = new DirectionalLight(0xffffff, fillLightIntensity);
+    // 放在相机右上角 (X=5, Y=5)，深度位置与主阵列一致 (Z=2)
+    topRightFill.position.set(5, 5, 2);
+    const fillTarget = new Object3D();
+    fillTarget.position.set(0, 0, -5); // 斜向指向相机前方中心
+    this.lightGroup.add(fillTarget);
+    topRightFill.target = fillTarget;
+    this.lightGroup.add(topRightFill);
+    this.lights.push(topRightFill);
+
+    // 注意：如果使用的是全自动模式，camera 已经添加到 scene 中了
+    // 如果是手动集成模式，用户需要确保 camera 在 scene 中或者其变换会被更新
+  }
+
+  /**
+   * 设置灯光可见性
+   * @param visible 是否可见
+   */
+  public setVisible(visible: boolean): void {
+    this.lights.forEach(light => {
+      light.visible = visible;
+    });
+  }
+
+  /**
+   * 设置灯光亮度
+   * @param exposure 亮度倍率
+   */
+  public setExposure(exposure: number): void {
+    this.lights.forEach(light => {
+      if (light instanceof AmbientLight) {
+        light.intensity = EXPLODER_CONSTANTS.LIGHTS.INTERNAL.AMBIENT * exposure;
+      } else if (light instanceof HemisphereLight) {
+        light.intensity = EXPLODER_CONSTANTS.LIGHTS.INTERNAL.HEMISPHERE * exposure;
+      } else if (light instanceof DirectionalLight) {
+        light.intensity = EXPLODER_CONSTANTS.LIGHTS.INTERNAL.DIRECTIONAL * exposure;
+      }
+    });
+  }
+
+  /**
+   * 从场景与相机中移除所有灯光（含相机下的灯光组与目标点）并释放资源
+   */
+  public dispose(): void {
+    this.lights.forEach(light => {
+      light.removeFromParent();
+      if (light.dispose) {
+        light.dispose();
+      }
+    });
+    this.lights = [];
+    this.lightGroup.removeFromParent();
+    this.lightGroup.clear();
+  }
+}
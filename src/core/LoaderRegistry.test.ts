@@ -0,0 +1,63 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { BoxGeometry, Group, Mesh } from 'three';
+import './BuiltinFormats';
+import { getAcceptedExtensions, getModelFormat, registerModelFormat, resolveModelFormat, unregisterModelFormat } from './LoaderRegistry';
+import { loadModelFile } from './ModelLoader';
+
+afterEach(() => {
+  unregisterModelFormat('test_stl');
+  unregisterModelFormat('test_step');
+});
+
+describe('resolveModelFormat', () => {
+  it('按扩展名识别格式，忽略大小写、查询参数与片段', () => {
+    expect(resolveModelFormat('/models/part.STL?v=2#top')).toBe(getModelFormat('stl'));
+    expect(resolveModelFormat('https://cdn.example.com/a.b/scene.glb')).toBe(getModelFormat('gltf'));
+    expect(resolveModelFormat('/models/readme')).toBeUndefined();
+    expect(resolveModelFormat('/models/.obj')).toBeUndefined();
+  });
+
+  it('优先使用显式指定的格式，其次是 data URL 的 MIME 类型', () => {
+    expect(resolveModelFormat('blob:http://localhost/1234', '.PLY')).toBe(getModelFormat('ply'));
+    expect(resolveModelFormat('blob:http://localhost/1234', 'model/obj')).toBe(getModelFormat('obj'));
+    expect(resolveModelFormat('data:model/stl;base64,AAAA')).toBe(getModelFormat('stl'));
+    expect(resolveModelFormat('/models/part.stl', 'fbx')).toBe(getModelFormat('fbx'));
+  });
+});
+
+describe('模型格式注册表', () => {
+  it('后注册的格式优先，注销后恢复内置格式', () => {
+    const builtin = getModelFormat('stl');
+    const custom = { extensions: ['stl'], load: () => Promise.resolve(new Group()) };
+
+    registerModelFormat('test_stl', custom);
+    expect(resolveModelFormat('part.stl')).toBe(custom);
+    unregisterModelFormat('test_stl');
+    expect(resolveModelFormat('part.stl')).toBe(builtin);
+  });
+
+  it('文件选择框的扩展名列表包含新注册的格式且不重复', () => {
+    registerModelFormat('test_step', { extensions: ['step', 'stp', 'stl'], load: () => Promise.resolve(new Group()) });
+
+    const accepted = getAcceptedExtensions().split(',');
+    expect(accepted).toEqual(expect.arrayContaining(['.glb', '.gltf', '.obj', '.stl', '.ply', '.fbx', '.3mf', '.step', '.stp']));
+    expect(new Set(accepted).size).toBe(accepted.length);
+  });
+});
+
+describe('loadModelFile', () => {
+  it('按地址选用已注册的格式，几何体包装为网格并放入以文件命名的根节点', async () => {
+    const geometry = new BoxGeometry(1, 1, 1);
+    registerModelFormat('test_step', { extensions: ['step'], load: () => Promise.resolve(geometry) });
+
+    const root = await loadModelFile('/models/part.STEP?v=1');
+    const mesh = root.children[0] as Mesh;
+    expect(root.name).toBe(mesh.name);
+    expect(mesh.isMesh).toBe(true);
+    expect(mesh.geometry).toBe(geometry);
+  });
+
+  it('无法识别的显式格式返回错误', async () => {
+    await expect(loadModelFile('/models/part.step', { format: 'step' })).rejects.toThrow('不支持的模型格式');
+  });
+});
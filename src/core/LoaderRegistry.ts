@@ -0,0 +1,71 @@
+import { ModelFormatDefinition } from './types';
+
+// 已注册的模型格式（按注册顺序排列）
+const registry: Map<string, ModelFormatDefinition> = new Map();
+
+/**
+ * 注册模型格式，已存在的同名格式会被替换
+ * @param id 格式标识
+ * @param definition 格式定义
+ */
+export function registerModelFormat(id: string, definition: ModelFormatDefinition): void {
+  registry.set(id, definition);
+}
+
+/**
+ * 注销模型格式
+ * @param id 格式标识
+ */
+export function unregisterModelFormat(id: string): void {
+  registry.delete(id);
+}
+
+/**
+ * 按扩展名或 MIME 类型查找模型格式（后注册的格式优先）
+ * @param key 扩展名（可带点，不区分大小写）或 MIME 类型
+ * @returns 格式定义，未注册时返回 undefined
+ */
+export function getModelFormat(key: string): ModelFormatDefinition | undefined {
+  const normalized = key.trim().toLowerCase().replace(/^\./, '');
+  if (!normalized) return undefined;
+  const definitions = Array.from(registry.values()).reverse();
+  return definitions.find(definition =>
+    definition.extensions.includes(normalized) || definition.mimeTypes?.includes(normalized)
+  );
+}
+
+/**
+ * 获取所有已注册的模型格式
+ * @returns [格式标识, 格式定义] 列表
+ */
+export function getModelFormats(): [string, ModelFormatDefinition][] {
+  return Array.from(registry.entries());
+}
+
+/**
+ * 解析模型地址对应的格式：优先使用显式指定的格式，其次是 data URL 的 MIME 类型与地址的扩展名
+ * @param url 模型地址
+ * @param format 显式指定的扩展名或 MIME 类型
+ * @returns 格式定义，无法识别时返回 undefined
+ */
+export function resolveModelFormat(url: string, format?: string): ModelFormatDefinition | undefined {
+  if (format) return getModelFormat(format);
+
+  const mime = url.match(/^data:([^;,]+)/);
+  if (mime) return getModelFormat(mime[1]);
+
+  // 去掉查询参数与片段后取扩展名
+  const path = url.split(/[?#]/)[0];
+  const fileName = path.substring(path.lastIndexOf('/') + 1);
+  const dot = fileName.lastIndexOf('.');
+  return dot > 0 ? getModelFormat(fileName.substring(dot + 1)) : undefined;
+}
+
+/**
+ * 文件选择框可接受的扩展名列表（如 '.glb,.gltf,.stl'）
+ */
+export function getAcceptedExtensions(): string {
+  const extensions = new Set<string>();
+  registry.forEach(definition => definition.extensions.forEach(ext => extensions.add(`.${ext}`)));
+  return Array.from(extensions).join(',');
+}
@@ -1,4 +1,4 @@
-import { Vector3, Vector2, Camera, Scene, Raycaster, Object3D, BufferGeometry, Mesh, Box3 } from 'three';
+import { Vector3, Vector2, Camera, Scene, Raycaster, Object3D, BufferGeometry, Mesh, Box3, Matrix3 } from 'three';
 import { Octree } from './Octree';
 import { SnapDetector, Edge } from './SnapDetector';
 import { MeasurementFormatter } from './MeasurementFormatter';
@@ -289,11 +289,18 @@ export class MeasurementTool {
     
     if (intersects.length > 0) {
       const intersection = intersects[0];
+      // 法线需用法线矩阵变换，非均匀缩放（CAD 导入模型常见）下直接变换方向会发生偏斜
+      const normal = intersection.face
+        ? intersection.face.normal.clone()
+          .applyNormalMatrix(new Matrix3().getNormalMatrix(intersection.object.matrixWorld))
+          .normalize()
+        : undefined;
       return {
         position: intersection.point,
         type: SnapMode.FACE,
         target: intersection.object,
-        distance: intersection.distance
+        distance: intersection.distance,
+        normal
       };
     }
     
@@ -339,7 +346,13 @@ export class MeasurementTool {
     this.onSnapDetectedCallback = callback;
   }
 
-  public buildSnapStructures(model: Object3D): void {
+  /**
+   * 构建吸附数据结构（八叉树、边与孔边缘）
+   * @param model 模型，或同一场景中的多个模型
+   */
+  public buildSnapStructures(model: Object3D | Object3D[]): void {
+    const models = Array.isArray(model) ? model : [model];
+
     // 重置吸附数据结构
     this.targetMeshes = [];
     this.edges = [];
@@ -349,9 +362,9 @@ export class MeasurementTool {
     const allWorldVertices: { pos: Vector3, mesh: Mesh, index: number }[] = [];
     
     // 确保模型的世界矩阵是最新的
-    model.updateMatrixWorld(true);
+    models.forEach(m => m.updateMatrixWorld(true));
     
-    model.traverse((child) => {
+    models.forEach(m => m.traverse((child) => {
       if ((child as Mesh).isMesh) {
         const mesh = child as Mesh;
         this.targetMeshes.push(mesh);
@@ -400,7 +413,7 @@ export class MeasurementTool {
           }
         }
       }
-    });
+    }));
     
     if (allWorldVertices.length === 0) {
       this.octree = null;
@@ -61,6 +61,8 @@ export interface SnapResult {
   target?: any;
   /** 吸附距离 */
   distance: number;
+  /** 面吸附时的世界坐标法线 */
+  normal?: Vector3;
 }
 
 /**
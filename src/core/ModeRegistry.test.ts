@@ -0,0 +1,78 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { Vector3 } from 'three';
+import { getExplosionMode, onExplosionModesChange, registerExplosionMode, unregisterExplosionMode } from './ModeRegistry';
+import { ExplosionEngine } from './Engine';
+import { ExplosionMode } from './types';
+import { createAssembly, expectMatrixClose, getPart, worldPosition } from '../test/fixtures';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  unregisterExplosionMode('test_lift');
+});
+
+describe('模式注册表', () => {
+  it('注册与注销时通知监听器', () => {
+    const listener = vi.fn();
+    const dispose = onExplosionModesChange(listener);
+
+    registerExplosionMode('test_lift', { label: '抬升', computeOffset: () => new Vector3() });
+    expect(getExplosionMode('test_lift')?.label).toBe('抬升');
+    unregisterExplosionMode('test_lift');
+    expect(getExplosionMode('test_lift')).toBeUndefined();
+    // 注销不存在的模式不会通知
+    unregisterExplosionMode('test_lift');
+    expect(listener).toHaveBeenCalledTimes(2);
+
+    dispose();
+  });
+
+  it('引擎使用自定义模式计算位移，重新注册后重新预计算', () => {
+    const precompute = vi.fn();
+    registerExplosionMode('test_lift', {
+      label: '抬升',
+      precompute,
+      computeOffset: (_mesh, progress) => new Vector3(0, progress, 0)
+    });
+
+    const model = createAssembly();
+    const engine = new ExplosionEngine(model, { mode: 'test_lift', adaptModel: false });
+    const rest = worldPosition(getPart(model, 'Base'));
+
+    engine.setProgress(1);
+    expect(worldPosition(getPart(model, 'Base')).sub(rest).toArray()).toEqual([0, 1, 0]);
+    expect(precompute).toHaveBeenCalledTimes(1);
+
+    registerExplosionMode('test_lift', {
+      label: '抬升',
+      precompute,
+      computeOffset: (_mesh, progress) => new Vector3(0, 2 * progress, 0)
+    });
+    engine.setProgress(1);
+    expect(worldPosition(getPart(model, 'Base')).sub(rest).y).toBeCloseTo(2, 6);
+    expect(precompute).toHaveBeenCalledTimes(2);
+    engine.dispose();
+  });
+});
+
+describe('未注册的爆炸模式', () => {
+  it('setMode、animateTo 与 computeTransforms 保留当前模式', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const model = createAssembly();
+    const engine = new ExplosionEngine(model, { mode: ExplosionMode.AXIAL, adaptModel: false });
+
+    engine.setMode('nope');
+    expect(engine.getMode()).toBe(ExplosionMode.AXIAL);
+
+    engine.animateTo(1, { mode: 'nope', duration: 0 });
+    expect(engine.getMode()).toBe(ExplosionMode.AXIAL);
+    // 部件仍按当前模式移动
+    expect(worldPosition(getPart(model, 'Lid')).y).toBeGreaterThan(1.5);
+
+    const fallback = engine.computeTransforms(1, 'nope');
+    const expected = engine.computeTransforms(1, ExplosionMode.AXIAL);
+    fallback.forEach((matrix, object) => expectMatrixClose(matrix, expected.get(object)!));
+
+    expect(warn).toHaveBeenCalledTimes(3);
+    engine.dispose();
+  });
+});
@@ -0,0 +1,64 @@
+import { ExplosionModeContext, ExplosionModeDefinition } from './types';
+
+// 已注册的爆炸模式（按注册顺序排列，面板按此顺序显示按钮）
+const registry: Map<string, ExplosionModeDefinition> = new Map();
+// 注册表变化监听器
+const listeners: Set<() => void> = new Set();
+
+/**
+ * 注册爆炸模式，已存在的同名模式会被替换
+ * 注册后模式会自动出现在控制面板的模式按钮中
+ * @param id 模式标识
+ * @param definition 模式定义
+ */
+export function registerExplosionMode(id: string, definition: ExplosionModeDefinition): void {
+  registry.set(id, definition);
+  listeners.forEach(listener => listener());
+}
+
+/**
+ * 注销爆炸模式
+ * @param id 模式标识
+ */
+export function unregisterExplosionMode(id: string): void {
+  if (registry.delete(id)) {
+    listeners.forEach(listener => listener());
+  }
+}
+
+/**
+ * 获取爆炸模式定义
+ * @param id 模式标识
+ * @returns 模式定义，未注册时返回 undefined
+ */
+export function getExplosionMode(id: string): ExplosionModeDefinition | undefined {
+  return registry.get(id);
+}
+
+/**
+ * 获取所有已注册的爆炸模式
+ * @returns [模式标识, 模式定义] 列表
+ */
+export function getExplosionModes(): [string, ExplosionModeDefinition][] {
+  return Array.from(registry.entries());
+}
+
+/**
+ * 监听注册表变化
+ * @param listener 监听函数
+ * @returns 取消监听的函数
+ */
+export function onExplosionModesChange(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * 基础爆炸距离：模型半径 * 最大距离系数 * 进度 * 倍率
+ * 供模式实现复用，保证不同尺寸的模型表现一致
+ * @param ctx 模式上下文
+ * @param progress 部件局部进度
+ */
+export function getBaseDistance(ctx: ExplosionModeContext, progress: number): number {
+  return ctx.radius * ctx.maxDistance * progress * ctx.multiplier;
+}
@@ -0,0 +1,176 @@
+import { Object3D, BufferGeometry, Group, Mesh, LoadingManager, WebGLRenderer } from 'three';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import type { DRACOLoader } from 'three/examples/jsm/loaders/DRACOLoader.js';
+import type { KTX2Loader } from 'three/examples/jsm/loaders/KTX2Loader.js';
+import { DecoderOptions, LoadProgressCallback } from './types';
+import { getModelFormat, resolveModelFormat } from './LoaderRegistry';
+import { createImportMaterial } from './BuiltinFormats';
+import { getFileName } from './utils';
+
+/**
+ * 已创建的解码器，由同一爆炸器的所有加载共享（解码器内部持有 Worker 与 WASM 实例）
+ */
+export interface GLTFDecoders {
+  draco: DRACOLoader | null;
+  ktx2: KTX2Loader | null;
+  meshopt: DecoderOptions['meshopt'] | null;
+}
+
+/**
+ * 模型加载选项
+ */
+export interface ModelLoadOptions {
+  /** 模型格式（扩展名或 MIME 类型，默认按地址识别） */
+  format?: string;
+  /** 下载进度回调 */
+  onProgress?: LoadProgressCallback;
+  /** 取消信号 */
+  signal?: AbortSignal;
+  /** 解码器（由 createDecoders 创建） */
+  decoders?: GLTFDecoders | null;
+  /** 自定义 glTF 加载器，设置后忽略 decoders；取消时无法中止其网络请求，只丢弃结果 */
+  loader?: GLTFLoader | null;
+}
+
+/**
+ * 按配置创建解码器，DRACOLoader 与 KTX2Loader 只在配置了对应解码器时按需加载
+ * @param options 解码器配置
+ * @param renderer 渲染器（KTX2 需要据此检测 GPU 支持的压缩纹理格式）
+ * @returns 解码器
+ */
+export async function createDecoders(options: DecoderOptions, renderer: WebGLRenderer): Promise<GLTFDecoders> {
+  let draco: DRACOLoader | null = null;
+  if (options.draco) {
+    const { DRACOLoader } = await import('three/examples/jsm/loaders/DRACOLoader.js');
+    draco = new DRACOLoader();
+    draco.setDecoderPath(options.draco);
+  }
+
+  let ktx2: KTX2Loader | null = null;
+  if (options.ktx2) {
+    const { KTX2Loader } = await import('three/examples/jsm/loaders/KTX2Loader.js');
+    ktx2 = new KTX2Loader();
+    ktx2.setTranscoderPath(options.ktx2);
+    ktx2.detectSupport(renderer);
+  }
+
+  if (options.meshopt && !options.meshopt.supported) {
+    console.warn('GLTFExploder: 当前环境不支持 WebAssembly，无法加载 Meshopt 压缩模型');
+  }
+  return { draco, ktx2, meshopt: options.meshopt ?? null };
+}
+
+/**
+ * 释放解码器持有的 Worker
+ * @param decoders 解码器
+ */
+export function disposeDecoders(decoders: GLTFDecoders): void {
+  decoders.draco?.dispose();
+  decoders.ktx2?.dispose();
+}
+
+/**
+ * 创建接入解码器的 glTF 加载器
+ * @private
+ */
+function createGLTFLoader(manager: LoadingManager, decoders?: GLTFDecoders | null): GLTFLoader {
+  const loader = new GLTFLoader(manager);
+  if (decoders?.draco) loader.setDRACOLoader(decoders.draco);
+  if (decoders?.ktx2) loader.setKTX2Loader(decoders.ktx2);
+  if (decoders?.meshopt) loader.setMeshoptDecoder(decoders.meshopt);
+  return loader;
+}
+
+/**
+ * 判断错误是否由取消加载引起
+ * @param error 加载失败时的错误
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+/**
+ * 创建取消加载时使用的错误
+ * @private
+ */
+function createAbortError(url: string): Error {
+  const error = new Error(`GLTFExploder: 模型加载已取消 (${url})`);
+  error.name = 'AbortError';
+  return error;
+}
+
+/**
+ * 加载模型文件，按格式注册表选择加载器，并将结果规范为可爆炸的模型根节点
+ * 取消信号触发时中止网络请求，并以 name 为 'AbortError' 的错误拒绝
+ * @param url 模型地址
+ * @param options 加载选项
+ * @returns 模型根节点
+ */
+export function loadModelFile(url: string, options: ModelLoadOptions = {}): Promise<Object3D> {
+  const { onProgress, signal, decoders } = options;
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError(url));
+      return;
+    }
+
+    // 未指定格式且无法识别的地址（如不带扩展名的 Blob URL）按 glTF 加载
+    const definition = resolveModelFormat(url, options.format) ?? (options.format ? undefined : getModelFormat('glb'));
+    if (!definition) {
+      reject(new Error(`GLTFExploder: 不支持的模型格式 "${options.format ?? url}"`));
+      return;
+    }
+
+    // 每次加载使用独立的加载管理器，取消时只中止本次请求
+    const manager = new LoadingManager();
+    let settled = false;
+
+    const onAbort = () => {
+      (manager as LoadingManager & { abort?: () => void }).abort?.();
+      finish(() => reject(createAbortError(url)));
+    };
+    const finish = (settle: () => void) => {
+      if (settled) return;
+      settled = true;
+      signal?.removeEventListener('abort', onAbort);
+      settle();
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    definition.load(url, {
+      manager,
+      gltfLoader: options.loader ?? createGLTFLoader(manager, decoders),
+      onProgress: (event) => {
+        if (!settled) onProgress?.(event.loaded, event.lengthComputable ? event.total : 0, url);
+      }
+    }).then(
+      (result) => finish(() => resolve(toModelRoot(result, url))),
+      // 网络错误时回调的是事件而不是 Error
+      (error) => finish(() => reject(error instanceof Error ? error : new Error(`GLTFExploder: 模型加载失败 (${url})`)))
+    );
+  });
+}
+
+/**
+ * 将加载结果规范为模型根节点：几何体包装为网格，单个网格、点云或线包装进分组
+ * 爆炸器移动的是根节点下的部件，根节点本身需要是容器
+ * @private
+ */
+function toModelRoot(result: Object3D | BufferGeometry, url: string): Object3D {
+  const name = getFileName(url);
+  let object: Object3D;
+  if ((result as BufferGeometry).isBufferGeometry) {
+    object = new Mesh(result as BufferGeometry, createImportMaterial(result as BufferGeometry));
+    object.name = name;
+  } else {
+    object = result as Object3D;
+  }
+
+  const leaf = object as Object3D & { isMesh?: boolean; isPoints?: boolean; isLine?: boolean };
+  if (!leaf.isMesh && !leaf.isPoints && !leaf.isLine) return object;
+
+  const root = new Group();
+  root.name = object.name || name;
+  root.add(object);
+  return root;
+}
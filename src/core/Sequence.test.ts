@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { Object3D, Vector3, Box3 } from 'three';
+import { computeSequenceWindows, getLocalProgress, SequenceContext } from './Sequence';
+import { ExplosionEngine } from './Engine';
+import { createAssembly, getPart, worldPosition, PART_NAMES } from '../test/fixtures';
+
+/**
+ * 在根节点下沿 X 轴排列若干空节点作为部件
+ */
+function createRow(count: number): { model: Object3D; meshes: Object3D[]; ctx: SequenceContext } {
+  const model = new Object3D();
+  const meshes: Object3D[] = [];
+  const originalPositions = new Map<Object3D, Vector3>();
+  for (let i = 0; i < count; i++) {
+    const mesh = new Object3D();
+    mesh.name = `Part${i}`;
+    mesh.position.set(i + 1, 0, 0);
+    model.add(mesh);
+    meshes.push(mesh);
+    originalPositions.set(mesh, mesh.position.clone());
+  }
+  return { model, meshes, ctx: { model, center: new Vector3(), originalPositions, restBoxes: new Map<Object3D, Box3>() } };
+}
+
+describe('computeSequenceWindows', () => {
+  it('显式阶段依次排列，未匹配的部件归入最后的隐式阶段', () => {
+    const { meshes, ctx } = createRow(3);
+    const windows = computeSequenceWindows(meshes, { stages: [['Part2'], ['Part0']] }, ctx);
+
+    expect(windows.get(meshes[2])).toEqual({ start: 0, length: 1 / 3 });
+    expect(windows.get(meshes[0])!.start).toBeCloseTo(1 / 3, 6);
+    expect(windows.get(meshes[1])!.start).toBeCloseTo(2 / 3, 6);
+  });
+
+  it('按距离交错时由外到内，reverse 反转顺序', () => {
+    const { meshes, ctx } = createRow(3);
+
+    const outward = computeSequenceWindows(meshes, { staggerBy: 'distance', window: 0.5 }, ctx);
+    expect(outward.get(meshes[2])!.start).toBeCloseTo(0, 6);
+    expect(outward.get(meshes[0])!.start).toBeCloseTo(0.5, 6);
+
+    const inward = computeSequenceWindows(meshes, { staggerBy: 'distance', window: 0.5, reverse: true }, ctx);
+    expect(inward.get(meshes[0])!.start).toBeCloseTo(0, 6);
+    expect(inward.get(meshes[2])!.start).toBeCloseTo(0.5, 6);
+  });
+
+  it('自定义排序函数的值越小越先移动', () => {
+    const { meshes, ctx } = createRow(3);
+    const windows = computeSequenceWindows(meshes, { staggerBy: mesh => -mesh.position.x, window: 0.2 }, ctx);
+
+    expect(windows.get(meshes[2])!.start).toBeCloseTo(0, 6);
+    expect(windows.get(meshes[0])!.start).toBeCloseTo(0.8, 6);
+  });
+});
+
+describe('getLocalProgress', () => {
+  it('将全局进度映射到部件窗口内并截断', () => {
+    const window = { start: 0.25, length: 0.5 };
+    expect(getLocalProgress(window, 0.1)).toBe(0);
+    expect(getLocalProgress(window, 0.5)).toBeCloseTo(0.5, 6);
+    expect(getLocalProgress(window, 0.9)).toBe(1);
+    expect(getLocalProgress(undefined, 0.3)).toBe(0.3);
+  });
+});
+
+describe('分阶段爆炸', () => {
+  it('各阶段在自己的进度窗口内依次移动', () => {
+    const model = createAssembly();
+    const engine = new ExplosionEngine(model, {
+      adaptModel: false,
+      // 顶盖、螺丝两个显式阶段，底座归入最后的隐式阶段
+      sequence: { stages: [['Lid'], [/^Screw/]] }
+    });
+    const rest = new Map(PART_NAMES.map(name => [name, worldPosition(getPart(model, name))]));
+    const offset = (name: string) => worldPosition(getPart(model, name)).distanceTo(rest.get(name)!);
+
+    // 第一阶段进行中：只有顶盖移动
+    engine.setProgress(0.2);
+    expect(offset('Lid')).toBeGreaterThan(0);
+    expect(offset('ScrewLeft')).toBeCloseTo(0, 6);
+    expect(offset('ScrewRight')).toBeCloseTo(0, 6);
+
+    // 第二阶段进行中：顶盖已到位，螺丝开始移动
+    engine.setProgress(0.5);
+    const lidAtMiddle = offset('Lid');
+    expect(offset('ScrewLeft')).toBeGreaterThan(0);
+
+    engine.setProgress(1);
+    expect(offset('Lid')).toBeCloseTo(lidAtMiddle, 6);
+    expect(offset('ScrewLeft')).toBeGreaterThan(0);
+    engine.dispose();
+  });
+
+  it('交错爆炸按距离依次启动', () => {
+    const model = createAssembly();
+    const engine = new ExplosionEngine(model, { adaptModel: false, sequence: { staggerBy: 'distance', window: 0.2 } });
+    const baseRest = worldPosition(getPart(model, 'Base'));
+    const screwRest = worldPosition(getPart(model, 'ScrewLeft'));
+
+    // 外侧部件先行：远处的螺丝已经移动，靠近中心的底座仍保持不动
+    engine.setProgress(0.1);
+    expect(worldPosition(getPart(model, 'ScrewLeft')).distanceTo(screwRest)).toBeGreaterThan(0);
+    expect(worldPosition(getPart(model, 'Base')).distanceTo(baseRest)).toBeCloseTo(0, 6);
+    engine.setProgress(1);
+    expect(worldPosition(getPart(model, 'Base')).distanceTo(baseRest)).toBeGreaterThan(0);
+    engine.dispose();
+  });
+});
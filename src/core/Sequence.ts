@@ -0,0 +1,153 @@
+import { Object3D, Vector3, Box3 } from 'three';
+import { ExplosionSequence } from './types';
+import { clamp, matchesPart } from './utils';
+
+/**
+ * 部件在全局进度上占用的局部窗口
+ */
+export interface SequenceWindow {
+  /** 窗口起点（全局进度） */
+  start: number;
+  /** 窗口长度（全局进度） */
+  length: number;
+}
+
+/**
+ * 计算序列所需的上下文
+ */
+export interface SequenceContext {
+  /** 模型根节点 */
+  model: Object3D;
+  /** 模型中心 */
+  center: Vector3;
+  /** 部件原始世界坐标 */
+  originalPositions: Map<Object3D, Vector3>;
+  /** 部件静止时的世界包围盒（优先用其中心衡量部件位置） */
+  restBoxes: ReadonlyMap<Object3D, Box3>;
+}
+
+/**
+ * 默认的交错窗口比例
+ */
+const DEFAULT_STAGGER_WINDOW = 0.5;
+
+/**
+ * 为每个部件计算局部进度窗口
+ * @param meshes 可爆炸部件
+ * @param sequence 序列配置
+ * @param ctx 上下文
+ * @returns 部件 -> 窗口
+ */
+export function computeSequenceWindows(
+  meshes: Object3D[],
+  sequence: ExplosionSequence,
+  ctx: SequenceContext
+): Map<Object3D, SequenceWindow> {
+  const windows = new Map<Object3D, SequenceWindow>();
+  if (meshes.length === 0) return windows;
+
+  // 1. 计算每个部件的排序键（0 表示最先移动，1 表示最后移动）
+  let keys: Map<Object3D, number>;
+  let defaultWindow: number;
+
+  if (sequence.stages && sequence.stages.length > 0) {
+    const stages = sequence.stages;
+    const stageIndices = new Map<Object3D, number>();
+    let usesImplicitStage = false;
+
+    for (const mesh of meshes) {
+      let index = stages.findIndex(selectors => selectors.some(selector => matchesPart(mesh, selector, ctx.model)));
+      if (index < 0) {
+        // 未匹配的部件归入最后一个隐式阶段
+        index = stages.length;
+        usesImplicitStage = true;
+      }
+      stageIndices.set(mesh, index);
+    }
+
+    const stageCount = stages.length + (usesImplicitStage ? 1 : 0);
+    const scale = stageCount > 1 ? 1 / (stageCount - 1) : 0;
+    keys = new Map();
+    for (const [mesh, index] of stageIndices) {
+      keys.set(mesh, index * scale);
+    }
+    defaultWindow = 1 / stageCount;
+  } else {
+    keys = normalizeKeys(computeStaggerValues(meshes, sequence, ctx));
+    defaultWindow = DEFAULT_STAGGER_WINDOW;
+  }
+
+  // 2. 将排序键映射为进度窗口：窗口起点均匀分布在 [0, 1 - window]
+  const length = clamp(sequence.window ?? defaultWindow, 0.01, 1);
+  for (const [mesh, key] of keys) {
+    const order = sequence.reverse ? 1 - key : key;
+    windows.set(mesh, { start: order * (1 - length), length });
+  }
+
+  return windows;
+}
+
+/**
+ * 计算连续交错键的原始值（值越小越先移动）
+ * @private
+ */
+function computeStaggerValues(
+  meshes: Object3D[],
+  sequence: ExplosionSequence,
+  ctx: SequenceContext
+): Map<Object3D, number> {
+  const values = new Map<Object3D, number>();
+  const staggerBy = sequence.staggerBy ?? 'distance';
+
+  for (const mesh of meshes) {
+    if (typeof staggerBy === 'function') {
+      values.set(mesh, staggerBy(mesh, ctx.center));
+    } else if (staggerBy === 'depth') {
+      let depth = 0;
+      let parent = mesh.parent;
+      while (parent && parent !== ctx.model) {
+        depth++;
+        parent = parent.parent;
+      }
+      values.set(mesh, depth);
+    } else {
+      // 由外到内：距离越远越先移动，因此取负值
+      const box = ctx.restBoxes.get(mesh);
+      const position = box && !box.isEmpty() ? box.getCenter(new Vector3()) : ctx.originalPositions.get(mesh);
+      values.set(mesh, position ? -position.distanceTo(ctx.center) : 0);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * 将任意数值归一化到 0-1
+ * @private
+ */
+function normalizeKeys(values: Map<Object3D, number>): Map<Object3D, number> {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const value of values.values()) {
+    min = Math.min(min, value);
+    max = Math.max(max, value);
+  }
+
+  const range = max - min;
+  const keys = new Map<Object3D, number>();
+  for (const [mesh, value] of values) {
+    keys.set(mesh, range > 0 ? (value - min) / range : 0);
+  }
+  return keys;
+}
+
+/**
+ * 将全局进度映射为部件的局部进度
+ * @param window 部件窗口
+ * @param progress 全局进度
+ * @returns 局部进度（0-1）
+ */
+export function getLocalProgress(window: SequenceWindow | undefined, progress: number): number {
+  if (!window) return progress;
+  return clamp((progress - window.start) / window.length, 0, 1);
+}
@@ -0,0 +1,127 @@
+import { EasingFunction, EasingName, ExplosionAnimation } from './types';
+
+/**
+ * 内置缓动函数
+ */
+export const EASINGS: Record<EasingName, EasingFunction> = {
+  linear: (t) => t,
+  easeInQuad: (t) => t * t,
+  easeOutQuad: (t) => t * (2 - t),
+  easeInOutQuad: (t) => (t < 0.5 ? 2 * t * t : -1 + (4 - 2 * t) * t),
+  easeInCubic: (t) => t * t * t,
+  easeOutCubic: (t) => 1 - Math.pow(1 - t, 3),
+  easeInOutCubic: (t) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2)
+};
+
+/**
+ * 解析缓动配置
+ * @param easing 缓动名称或自定义函数
+ * @returns 缓动函数（未知名称回退为线性）
+ */
+export function resolveEasing(easing?: EasingName | EasingFunction): EasingFunction {
+  if (typeof easing === 'function') return easing;
+  return (easing && EASINGS[easing]) || EASINGS.linear;
+}
+
+/**
+ * 请求下一帧（无 requestAnimationFrame 的环境下退化为定时器）
+ */
+function requestFrame(callback: (time: number) => void): number {
+  if (typeof requestAnimationFrame === 'function') {
+    return requestAnimationFrame(callback);
+  }
+  return setTimeout(() => callback(Date.now()), 16) as unknown as number;
+}
+
+function cancelFrame(handle: number): void {
+  if (typeof cancelAnimationFrame === 'function') {
+    cancelAnimationFrame(handle);
+  } else {
+    clearTimeout(handle);
+  }
+}
+
+function now(): number {
+  return typeof performance !== 'undefined' ? performance.now() : Date.now();
+}
+
+/**
+ * 创建一个立即完成的动画句柄
+ * @param completed 是否视为正常完成
+ */
+export function createResolvedAnimation(completed = true): ExplosionAnimation {
+  const animation = Promise.resolve(completed) as ExplosionAnimation;
+  animation.cancel = () => undefined;
+  return animation;
+}
+
+/**
+ * 将多个动画合并为一个句柄：全部完成时兑现为 true，任一被取消时为 false；取消时一并取消
+ * @param animations 动画句柄
+ */
+export function combineAnimations(animations: ExplosionAnimation[]): ExplosionAnimation {
+  if (animations.length === 1) return animations[0];
+  const animation = Promise.all(animations)
+    .then(results => results.every(Boolean)) as ExplosionAnimation;
+  animation.cancel = () => animations.forEach(item => item.cancel());
+  return animation;
+}
+
+/**
+ * 运行一段补间动画
+ * 每帧以缓动后的 0-1 插值因子调用 onUpdate，结束时 Promise 以 true 兑现，被取消时以 false 兑现
+ *
+ * @param duration 时长（毫秒），小于等于 0 时同步完成
+ * @param easing 缓动函数
+ * @param onUpdate 每帧回调
+ * @param onFinish 结束回调（无论完成还是取消都会调用一次）
+ */
+export function runTween(
+  duration: number,
+  easing: EasingFunction,
+  onUpdate: (t: number) => void,
+  onFinish?: (completed: boolean) => void
+): ExplosionAnimation {
+  if (duration <= 0) {
+    onUpdate(1);
+    onFinish?.(true);
+    return createResolvedAnimation(true);
+  }
+
+  let handle: number | null = null;
+  let settled = false;
+  let resolver: (completed: boolean) => void = () => undefined;
+
+  const finish = (completed: boolean) => {
+    if (settled) return;
+    settled = true;
+    if (handle !== null) {
+      cancelFrame(handle);
+      handle = null;
+    }
+    onFinish?.(completed);
+    resolver(completed);
+  };
+
+  const animation = new Promise<boolean>((resolve) => {
+    resolver = resolve;
+  }) as ExplosionAnimation;
+  animation.cancel = () => finish(false);
+
+  const start = now();
+  const step = () => {
+    if (settled) return;
+    const elapsed = now() - start;
+    const t = Math.min(1, elapsed / duration);
+    onUpdate(easing(t));
+    if (t >= 1) {
+      handle = null;
+      finish(true);
+    } else {
+      handle = requestFrame(step);
+    }
+  };
+  handle = requestFrame(step);
+
+  return animation;
+}
@@ -1,4 +1,5 @@
-import { Object3D, Vector3 } from 'three';
+import { Object3D, Vector3, Box3, BufferGeometry, LoadingManager } from 'three';
+import type { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
 
 /**
  * 爆炸模式
@@ -15,7 +16,110 @@ export enum ExplosionMode {
   /** 装配树分级爆炸：基于模型层级结构的嵌套爆炸 */
   HIERARCHICAL = 'hierarchical',
   /** 力场式爆炸：模拟物理斥力场的效果 */
-  FORCE_FIELD = 'force_field'
+  FORCE_FIELD = 'force_field',
+  /** 防碰撞爆炸：迭代外推部件直到包围盒互不重叠 */
+  COLLISION_AWARE = 'collision_aware',
+  /** 柱面爆炸：以轴向向量为圆柱轴，垂直于轴线向外位移 */
+  CYLINDRICAL = 'cylindrical',
+  /** 平面剖分爆炸：以过模型中心、法线为轴向向量的平面将模型分成两半 */
+  PLANAR_SPLIT = 'planar_split'
+}
+
+/**
+ * 爆炸模式标识：内置模式或通过 registerExplosionMode 注册的自定义模式
+ */
+export type ExplosionModeId = ExplosionMode | (string & {});
+
+/**
+ * 爆炸模式参数定义：数值参数在面板中渲染为滑块，布尔参数渲染为开关
+ */
+export type ModeParamSchema =
+  | {
+      type: 'number';
+      /** 面板显示名称 */
+      label: string;
+      /** 默认值 */
+      default: number;
+      /** 最小值 */
+      min: number;
+      /** 最大值 */
+      max: number;
+      /** 滑块步长 (默认为 (max - min) / 100) */
+      step?: number;
+    }
+  | {
+      type: 'boolean';
+      /** 面板显示名称 */
+      label: string;
+      /** 默认值 */
+      default: boolean;
+    };
+
+/**
+ * 爆炸模式参数值（参数名 -> 值）
+ */
+export type ModeParamValues = Record<string, number | boolean>;
+
+/**
+ * 爆炸模式计算上下文
+ */
+export interface ExplosionModeContext {
+  /** 模型根节点 */
+  model: Object3D;
+  /** 爆炸中心 */
+  center: Vector3;
+  /** 模型参考半径 */
+  radius: number;
+  /** 最大爆炸距离倍率 */
+  maxDistance: number;
+  /** 当前爆炸系数 */
+  multiplier: number;
+  /** 当前轴向向量（未归一化） */
+  axialVector: Vector3;
+  /** 平面剖分模式下跨越剖分平面的部件处理策略 */
+  straddlePolicy: StraddlePolicy;
+  /** 部件静止状态下的世界坐标 */
+  originalPositions: ReadonlyMap<Object3D, Vector3>;
+  /** 部件爆炸方向（已归一化） */
+  directions: ReadonlyMap<Object3D, Vector3>;
+  /** 部件静止状态下的世界包围盒 */
+  restBoxes: ReadonlyMap<Object3D, Box3>;
+  /** 部件覆盖配置 */
+  overrides: ReadonlyMap<Object3D, PartOverride>;
+  /** 模式参数当前值（已用默认值补全） */
+  params: Readonly<ModeParamValues>;
+  /** 模式私有状态，供 precompute 写入、computeOffset 读取 */
+  state: Record<string, any>;
+}
+
+/**
+ * 爆炸模式定义
+ */
+export interface ExplosionModeDefinition {
+  /** 面板按钮文字 */
+  label: string;
+  /** 面板按钮图标（24x24 视图下的 SVG path 数据） */
+  icon?: string;
+  /** 是否使用轴向向量（为 true 时面板显示轴向选择器） */
+  usesAxis?: boolean;
+  /** 可调参数定义，模式激活时面板自动生成对应控件，通过 setModeParams 修改 */
+  params?: Record<string, ModeParamSchema>;
+  /** 是否由模式自行应用部件覆盖的方向与距离缩放（为 true 时引擎不再对 computeOffset 的结果应用这两项覆盖） */
+  handlesOverrides?: boolean;
+  /**
+   * 预计算（模型、轴向或部件配置变化后，首次使用该模式前调用）
+   * @param meshes 参与爆炸的部件（已去除被排除的部件）
+   * @param ctx 模式上下文
+   */
+  precompute?(meshes: Object3D[], ctx: ExplosionModeContext): void;
+  /**
+   * 计算部件在指定局部进度下的世界位移
+   * @param mesh 部件
+   * @param progress 部件局部进度（0-1）
+   * @param ctx 模式上下文
+   * @returns 相对静止位置的世界位移
+   */
+  computeOffset(mesh: Object3D, progress: number, ctx: ExplosionModeContext): Vector3;
 }
 
 /**
@@ -36,19 +140,198 @@ export type ExposureChangeCallback = (exposure: number) => void;
 /**
  * 模式变化回调函数
  */
-export type ModeChangeCallback = (mode: ExplosionMode) => void;
+export type ModeChangeCallback = (mode: ExplosionModeId) => void;
+
+/**
+ * 模式参数变化回调函数
+ */
+export type ModeParamChangeCallback = (mode: ExplosionModeId, key: string, value: number | boolean) => void;
 
 /**
  * 轴向变化回调函数
  */
 export type AxialChangeCallback = (vector: Vector3) => void;
 
+/**
+ * 轴向来源
+ * - principal-major / principal-middle / principal-minor：模型主轴（PCA，按方差从大到小）
+ * - face：拾取面的法线
+ * - edge：拾取边的方向
+ */
+export type AxisSource = 'principal-major' | 'principal-middle' | 'principal-minor' | 'face' | 'edge';
+
+/**
+ * 轴向来源选择回调函数
+ */
+export type AxisSourceChangeCallback = (source: AxisSource) => void;
+
 /**
  * 辅助显示状态变化回调函数
  */
 export type HelperVisibilityChangeCallback = (visible: boolean) => void;
 export type MeasureActiveChangeCallback = (active: boolean) => void;
 
+/**
+ * 缓动函数：输入 0-1 的时间比例，返回 0-1 的插值因子
+ */
+export type EasingFunction = (t: number) => number;
+
+/**
+ * 内置缓动名称
+ */
+export type EasingName =
+  | 'linear'
+  | 'easeInQuad'
+  | 'easeOutQuad'
+  | 'easeInOutQuad'
+  | 'easeInCubic'
+  | 'easeOutCubic'
+  | 'easeInOutCubic';
+
+/**
+ * 爆炸动画选项
+ */
+export interface AnimateOptions {
+  /** 动画时长（毫秒），默认使用 ExploderOptions.duration */
+  duration?: number;
+  /** 缓动函数或内置缓动名称，默认使用 ExploderOptions.easing */
+  easing?: EasingName | EasingFunction;
+  /** 目标爆炸模式（提供时会在动画过程中平滑过渡到该模式） */
+  mode?: ExplosionModeId;
+  /** 目标爆炸系数（提供时会在动画过程中平滑过渡到该系数） */
+  multiplier?: number;
+  /** 每帧回调，参数为当前进度 */
+  onUpdate?: ProgressChangeCallback;
+}
+
+/**
+ * 可取消的爆炸动画
+ * 动画正常完成时兑现为 true，被取消或被新动画打断时兑现为 false
+ */
+export type ExplosionAnimation = Promise<boolean> & {
+  /** 取消动画，模型停留在当前插值状态 */
+  cancel(): void;
+};
+
+/**
+ * 平面剖分模式下跨越剖分平面的部件处理策略
+ * - nearest: 归入包围盒中心所在的一侧（默认）
+ * - stay: 停留在原位
+ * - positive: 归入法线正方向一侧
+ * - negative: 归入法线负方向一侧
+ */
+export type StraddlePolicy = 'nearest' | 'stay' | 'positive' | 'negative';
+
+/**
+ * 模型朝上的轴（加载时据此把模型转为 Y 轴朝上）
+ * - y: 模型已是 Y 轴朝上，不做旋转（默认）
+ * - z: 模型为 Z 轴朝上（常见于 CAD 导出），绕 X 轴旋转 -90°
+ * - auto: 按主轴将模型摆正到网格，并让最大的平整底面朝下
+ */
+export type UpAxis = 'y' | 'z' | 'auto';
+
+/**
+ * 场景中有多个模型时，HUD 与爆炸控制作用的范围
+ * - active: 仅当前激活的模型（默认，选中部件时激活其所属模型）
+ * - all: 所有模型
+ */
+export type HudTarget = 'active' | 'all';
+
+/**
+ * 自动取景：爆炸过程中调整相机距离与控制器目标点，使爆炸后的模型始终处于视口内
+ * - off: 关闭（默认），仅在隔离/全部显示时适配视图
+ * - instant: 部件位置变化后立即适配
+ * - smooth: 部件位置变化后平滑过渡到适配视角
+ */
+export type AutoFrameMode = 'off' | 'instant' | 'smooth';
+
+/**
+ * 爆炸中心：世界坐标点、部件（取其包围盒中心）、'bbox'（模型包围盒中心）或 'centroid'（部件体积加权质心）
+ */
+export type ExplosionCenter = Vector3 | Object3D | 'bbox' | 'centroid';
+
+/**
+ * 局部聚焦爆炸配置：只让选中部件附近的部件远离它，远处部件保持装配状态
+ */
+export interface FocusExplosion {
+  /** 影响半径（相对模型参考半径，默认 0.5） */
+  radius?: number;
+  /** 强度随距离的衰减曲线 (默认为 'smooth') */
+  falloff?: 'linear' | 'smooth' | 'none';
+}
+
+/**
+ * 部件选择器：网格引用、名称（精确匹配）、名称正则或自定义谓词
+ * 名称与正则会同时匹配对象自身及其祖先节点的名称
+ */
+export type PartSelector = Object3D | string | RegExp | ((object: Object3D) => boolean);
+
+/**
+ * 部件随爆炸进度的旋转配置（角度与部件局部进度成正比）
+ */
+export interface PartRotation {
+  /** 旋转类型：spin 绕自身轴自转（如螺丝拧出），tilt 向外倾斜（如面板翻开） */
+  type: 'spin' | 'tilt';
+  /** 完全爆炸时的旋转角度（弧度） */
+  angle: number;
+  /** 自转轴（世界坐标，仅 spin 生效），默认为爆炸方向 */
+  axis?: Vector3;
+}
+
+/**
+ * 单个部件的爆炸覆盖配置
+ */
+export interface PartOverride {
+  /** 锁定：部件始终停留在原始位置 */
+  locked?: boolean;
+  /** 排除：部件不再受爆炸器控制（也不参与序列排序） */
+  excluded?: boolean;
+  /** 自定义爆炸方向（世界坐标，无需归一化） */
+  direction?: Vector3;
+  /** 位移距离缩放倍率 */
+  distanceScale?: number;
+  /** 旋转配置，覆盖全局旋转；为 null 时该部件不旋转 */
+  rotation?: PartRotation | null;
+}
+
+/**
+ * 爆炸粒度：决定以什么为单位移动部件，同一单位作为刚体整体移动
+ * - mesh: 每个叶子网格独立移动（默认）
+ * - topLevel: 模型根节点的直接子节点
+ * - depth: 装配树中指定深度的节点（1 等价于 topLevel），更浅的网格独立移动
+ * - name: 名称匹配的最外层祖先节点，未匹配的网格独立移动
+ * - material: 共享同一材质的网格聚为一组
+ */
+export type ExplosionGranularity =
+  | { type: 'mesh' }
+  | { type: 'topLevel' }
+  | { type: 'depth'; depth: number }
+  | { type: 'name'; pattern: RegExp | string }
+  | { type: 'material' };
+
+/**
+ * 连续交错的排序键
+ * - 'distance': 按部件到模型中心的距离，由外到内
+ * - 'depth': 按部件在装配树中的深度，由浅到深
+ * - 自定义函数: 返回值越小越先移动
+ */
+export type StaggerKey = 'distance' | 'depth' | ((object: Object3D, center: Vector3) => number);
+
+/**
+ * 爆炸序列配置
+ * 将全局进度映射为每个部件自己的局部进度窗口
+ */
+export interface ExplosionSequence {
+  /** 显式阶段：按顺序排列，每个阶段包含一组部件选择器；未匹配的部件归入最后一个隐式阶段 */
+  stages?: PartSelector[][];
+  /** 连续交错键（未提供 stages 时生效） */
+  staggerBy?: StaggerKey;
+  /** 是否反转顺序 */
+  reverse?: boolean;
+  /** 每个部件占用的全局进度比例 (0-1)，阶段模式默认 1/阶段数（依次进行），交错模式默认 0.5 */
+  window?: number;
+}
+
 /**
  * UI 样式配置接口
  */
@@ -59,9 +342,31 @@ export interface ExploderUIStyle {
 }
 
 /**
- * 模型变化回调函数
+ * 模型变化回调函数（上传本地文件时 modelPath 为 Blob URL，name 为文件名）
+ */
+export type ModelChangeCallback = (modelPath: string, format?: string, name?: string) => void;
+
+/**
+ * 模型加载进度回调函数（total 为 0 表示总大小未知）
+ */
+export type LoadProgressCallback = (loaded: number, total: number, url: string) => void;
+
+/**
+ * 模型加载失败回调函数
  */
-export type ModelChangeCallback = (modelPath: string) => void;
+export type LoadErrorCallback = (error: Error, url: string) => void;
+
+/**
+ * 压缩模型解码器配置（路径指向自行托管的解码器文件目录）
+ */
+export interface DecoderOptions {
+  /** Draco 解码器目录（如 '/libs/draco/'，对应 three/examples/jsm/libs/draco），设置后可加载 KHR_draco_mesh_compression 模型 */
+  draco?: string;
+  /** KTX2 (Basis Universal) 转码器目录（如 '/libs/basis/'，对应 three/examples/jsm/libs/basis），设置后可加载 KHR_texture_basisu 纹理 */
+  ktx2?: string;
+  /** Meshopt 解码器（three/examples/jsm/libs/meshopt_decoder.module.js 导出的 MeshoptDecoder，WASM 已内嵌无需路径），设置后可加载 EXT_meshopt_compression 模型 */
+  meshopt?: { supported: boolean; ready: Promise<void> };
+}
 
 /**
  * 重置回调函数
@@ -74,6 +379,37 @@ export type ResetCallback = () => void;
 export interface ModelOption {
   label: string;
   value: string;
+  /** 模型格式（扩展名或 MIME 类型），地址中没有扩展名时使用 */
+  format?: string;
+}
+
+/**
+ * 模型格式加载上下文
+ */
+export interface ModelLoadContext {
+  /** 本次加载使用的加载管理器（传给 three.js 加载器，取消时据此中止网络请求） */
+  manager: LoadingManager;
+  /** 已接入解码器的 glTF 加载器（或通过 gltfLoader 注入的加载器） */
+  gltfLoader: GLTFLoader;
+  /** 下载进度回调（传给 three.js 加载器） */
+  onProgress: (event: ProgressEvent) => void;
+}
+
+/**
+ * 模型格式定义
+ */
+export interface ModelFormatDefinition {
+  /** 文件扩展名（小写，不含点），如 ['stl'] */
+  extensions: string[];
+  /** MIME 类型，如 ['model/stl'] */
+  mimeTypes?: string[];
+  /**
+   * 加载模型
+   * @param url 模型地址
+   * @param ctx 加载上下文
+   * @returns 模型根节点；几何体会被包装为网格
+   */
+  load(url: string, ctx: ModelLoadContext): Promise<Object3D | BufferGeometry>;
 }
 
 /**
@@ -103,6 +439,8 @@ export const EXPLODER_CONSTANTS = {
   },
   // 默认动画时长
   DEFAULT_DURATION: 1000,
+  // 默认动画缓动
+  DEFAULT_EASING: 'easeInOutCubic' as EasingName,
   // 默认最大爆炸距离倍率
   DEFAULT_MAX_DISTANCE: 2.0,
   // 默认模型自适应尺寸（归一化后的参考尺寸）
@@ -113,6 +451,60 @@ export const EXPLODER_CONSTANTS = {
     SCALE: 1.5,
     FORCE_FIELD_OFFSET: 0.2
   },
+  // 非 glTF 格式导入配置（STL / PLY 等只含几何体的格式）
+  IMPORT: {
+    // 默认材质颜色
+    COLOR: 0xb8bcc4,
+    // 点云的点大小（像素）
+    POINT_SIZE: 2
+  },
+  // 局部聚焦爆炸配置
+  FOCUS: {
+    // 默认影响半径（相对模型半径）
+    RADIUS: 0.5
+  },
+  // 爆炸轴配置
+  AXES: {
+    // 主轴分析的最大采样顶点数
+    MAX_SAMPLES: 20000,
+    // 轴向指示箭头颜色
+    INDICATOR_COLOR: 0xF59E0B,
+    // 轴向指示箭头长度（相对模型半径）
+    INDICATOR_LENGTH: 1.2
+  },
+  // 朝向归一化配置
+  ORIENTATION: {
+    // 底面检测的最大采样三角形数
+    MAX_TRIANGLES: 50000,
+    // 底面三角形法线与候选方向夹角的余弦下限
+    BASE_NORMAL_TOLERANCE: 0.98,
+    // 底面三角形到包围盒极值平面的距离容差（相对该方向尺寸）
+    BASE_PLANE_TOLERANCE: 0.01
+  },
+  // 多模型配置
+  MULTI_MODEL: {
+    // 并排布局时相邻模型的间距（相对较大模型的半径）
+    GAP: 1.0
+  },
+  // 自动取景配置
+  AUTO_FRAME: {
+    // 平滑模式下每帧向目标视角逼近的比例
+    DAMPING: 0.15,
+    // 与目标视角的相对差距小于该值时停止过渡
+    EPSILON: 0.001
+  },
+  // 平面剖分配置
+  PLANAR_SPLIT: {
+    // 跨越判定容差（相对模型半径），包围盒越过平面不超过该值时不视为跨越
+    STRADDLE_TOLERANCE: 0.01
+  },
+  // 碰撞分离配置
+  COLLISION: {
+    // 最大迭代次数
+    MAX_ITERATIONS: 50,
+    // 接触容差（相对模型半径），小于该值的包围盒重叠视为贴合而非碰撞
+    TOLERANCE: 0.005
+  },
   // 灯光强度配置
   LIGHTS: {
     // 场景灯光
@@ -162,6 +554,8 @@ export interface ExploderOptions {
   maxDistance?: number;
   /** 动画持续时间（毫秒） */
   duration?: number;
+  /** 动画缓动函数或内置缓动名称 (默认为 'easeInOutCubic') */
+  easing?: EasingName | EasingFunction;
   /** 是否自动创建 UI */
   createUI?: boolean;
   /** 当 createUI 为 true 时，是否显示控制面板 (默认为 true) */
@@ -170,10 +564,22 @@ export interface ExploderOptions {
   showProgress?: boolean;
   /** 是否自动缩放和居中模型（自适应视图） */
   adaptModel?: boolean;
+  /** 模型朝上的轴，加载时将模型转为 Y 轴朝上 (默认为 'y'，不旋转) */
+  upAxis?: UpAxis;
+  /** 自动取景，爆炸时保持模型处于视口内（仅全自动模式，默认为 'off'） */
+  autoFrame?: AutoFrameMode;
   /** 模型对象 (Object3D) 或模型路径 (string) */
   model?: Object3D | string;
   /** 网络模型 URL (优先级高于 model) */
   modelUrl?: string;
+  /** 初始模型的格式（扩展名或 MIME 类型），地址中没有扩展名时使用 (默认按扩展名识别，无法识别时按 glTF 加载) */
+  modelFormat?: string;
+  /** 加载模型时是否在视口中显示进度与错误遮罩（仅全自动模式，默认为 true） */
+  showLoading?: boolean;
+  /** 压缩模型解码器配置 (默认为 null，只能加载未压缩的模型) */
+  decoders?: DecoderOptions | null;
+  /** 自定义的 glTF 加载器（已自行配置解码器或插件），设置后忽略 decoders */
+  gltfLoader?: GLTFLoader | null;
   /** 3D 视口容器（全自动模式下必填，可以是选择器或 HTMLElement） */
   viewport?: HTMLElement | string;
   /** 是否在控制面板中显示本地上传按钮 (默认为 false) */
@@ -187,9 +593,25 @@ export interface ExploderOptions {
   /** 爆炸方向计算策略 */
   directionStrategy?: (object: Object3D, center: Vector3) => Vector3;
   /** 爆炸模式 */
-  mode?: ExplosionMode;
-  /** 轴向分层爆炸的主轴（默认为 Y 轴） */
+  mode?: ExplosionModeId;
+  /** 轴向分层爆炸的主轴（默认为 Y 轴），同时作为柱面模式的圆柱轴与平面剖分模式的平面法线 */
   axialVector?: Vector3;
+  /** 是否按当前可见部件重新计算模型中心、尺寸与爆炸方向，隐藏外壳后剩余部件重新均匀展开 (默认为 false) */
+  visibilityAware?: boolean;
+  /** 平面剖分模式下跨越剖分平面的部件处理策略 (默认为 'nearest') */
+  straddlePolicy?: StraddlePolicy;
+  /** 各爆炸模式的初始参数（模式 -> 参数值），未指定的参数使用模式定义的默认值 */
+  modeParams?: Partial<Record<ExplosionModeId, ModeParamValues>>;
+  /** 爆炸粒度 (默认为 { type: 'mesh' }) */
+  granularity?: ExplosionGranularity;
+  /** 部件随爆炸进度旋转的全局配置 (默认为 null，不旋转) */
+  rotation?: PartRotation | null;
+  /** 分阶段/交错爆炸序列 (默认为 null，所有部件同步移动) */
+  sequence?: ExplosionSequence | null;
+  /** 局部聚焦爆炸 (默认为 null；开启后选中部件时只爆炸其附近的部件) */
+  focus?: FocusExplosion | null;
+  /** 爆炸中心 (默认为 'bbox'，即模型包围盒中心) */
+  explosionCenter?: ExplosionCenter;
   /** 可选的模型列表 */
   models?: string[] | ModelOption[];
   /** 初始选中的模型 */
@@ -213,9 +635,15 @@ export interface ExploderUI {
   /** 更新亮度状态 */
   updateExposure?(exposure: number): void;
   /** 更新模式状态 */
-  updateMode?(mode: ExplosionMode): void;
+  updateMode?(mode: ExplosionModeId): void;
   /** 更新轴向状态 */
   updateAxialVector?(vector: Vector3): void;
+  /** 更新模式参数状态 */
+  updateModeParams?(mode: ExplosionModeId, values: ModeParamValues): void;
+  /** 在视口中拾取一个点（拾取爆炸中心），取消时回调 null */
+  pickPoint?(onPick: (point: Vector3 | null) => void): void;
+  /** 在视口中拾取面或边作为爆炸轴（单位向量），取消时回调 null */
+  pickAxis?(source: 'face' | 'edge', onPick: (axis: Vector3 | null) => void): void;
   /** 更新模型信息 */
   updateModel?(modelPath: string): void;
   /** 更新模型展示信息（名称和面数） */
@@ -224,6 +652,8 @@ export interface ExploderUI {
   updateHelperVisibility?(visible: boolean): void;
   /** 更新模型缩放比例 (用于测量归一化) */
   updateModelScale?(scale: number): void;
+  /** 更新测量吸附的目标模型（场景中加载了多个模型时） */
+  updateSnapTargets?(models: Object3D[]): void;
   /** 重置 UI 状态 */
   reset?(): void;
   /** 每帧渲染更新 (用于同步相机透视等) */
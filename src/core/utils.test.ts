@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { Group, Scene, Vector3 } from 'three';
+import { calculateDirection, getNodePath, matchesPart } from './utils';
+import { addBox, createAssembly, getPart } from '../test/fixtures';
+
+describe('matchesPart', () => {
+  it('名称与正则沿父级向上匹配，直到根节点为止', () => {
+    const model = createAssembly();
+    const screw = getPart(model, 'ScrewLeft');
+
+    expect(matchesPart(screw, 'Screws', model)).toBe(true);
+    expect(matchesPart(screw, /^Screw/, model)).toBe(true);
+    expect(matchesPart(screw, 'Root', model)).toBe(false);
+    expect(matchesPart(screw, getPart(model, 'Screws'), model)).toBe(true);
+    expect(matchesPart(getPart(model, 'Lid'), 'Screws', model)).toBe(false);
+  });
+
+  it('带 g / y 标志的正则重复匹配结果稳定', () => {
+    const model = createAssembly();
+    const selector = /Screw/g;
+
+    expect(matchesPart(getPart(model, 'ScrewLeft'), selector, model)).toBe(true);
+    expect(matchesPart(getPart(model, 'ScrewRight'), selector, model)).toBe(true);
+    expect(matchesPart(getPart(model, 'ScrewRight'), /Screw/y, model)).toBe(true);
+  });
+
+  it('函数选择器只判断对象自身', () => {
+    const model = createAssembly();
+    expect(matchesPart(getPart(model, 'ScrewLeft'), object => object.name === 'Screws', model)).toBe(false);
+  });
+});
+
+describe('calculateDirection', () => {
+  it('以几何体中心而非节点原点计算方向', () => {
+    const root = new Group();
+    // CAD 导出常见：节点原点在 (0,0,0)，几何体偏移到实际位置
+    const part = addBox(root, 'Part', [1, 1, 1], [0, 0, 0]);
+    part.geometry.translate(0, 0, 4);
+    root.updateMatrixWorld(true);
+
+    expect(calculateDirection(part, new Vector3()).toArray()).toEqual([0, 0, 1]);
+  });
+
+  it('位于中心的部件按层级路径生成稳定方向，与 uuid 无关', () => {
+    const build = () => {
+      const root = new Group();
+      addBox(root, 'A', [1, 1, 1], [0, 0, 0]);
+      addBox(root, 'B', [1, 1, 1], [0, 0, 0]);
+      root.updateMatrixWorld(true);
+      return root;
+    };
+    const first = build();
+    const second = build();
+
+    const a = calculateDirection(getPart(first, 'A'), new Vector3());
+    expect(a.length()).toBeCloseTo(1, 6);
+    expect(calculateDirection(getPart(second, 'A'), new Vector3()).toArray()).toEqual(a.toArray());
+    // 同一父节点下的兄弟部件方向不同
+    expect(calculateDirection(getPart(first, 'B'), new Vector3()).distanceTo(a)).toBeGreaterThan(1e-3);
+  });
+});
+
+describe('getNodePath', () => {
+  it('路径由名称与子节点索引组成，在场景处截止', () => {
+    const model = createAssembly();
+    const scene = new Scene();
+    scene.add(new Group(), model);
+
+    expect(getNodePath(getPart(model, 'ScrewRight'))).toBe('0:Root/2:Screws/1:ScrewRight');
+  });
+});
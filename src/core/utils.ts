@@ -1,5 +1,5 @@
-import { Object3D, Vector3, Sprite, SpriteMaterial, CanvasTexture, Box3 } from 'three';
-import { EXPLODER_CONSTANTS } from './types';
+import { Object3D, Vector3, Sprite, SpriteMaterial, CanvasTexture, Box3, BufferGeometry, Scene } from 'three';
+import { EXPLODER_CONSTANTS, PartSelector } from './types';
 
 /**
  * 创建一个精致的文本精灵标签
@@ -39,6 +39,72 @@ export function createTextSprite(text: string, color: string = '#2563EB'): Sprit
   return sprite;
 }
 
+/**
+ * 计算对象几何体在世界坐标下的包围盒中心
+ * 许多 CAD 导出的部件原点都在 (0,0,0)，节点原点无法代表部件位置，因此以几何体为准
+ * @param object 对象（网格只取自身几何体，其他节点取整个子树）
+ * @param target 结果向量
+ * @returns 包围盒中心；没有几何体时为节点的世界坐标
+ */
+export function getGeometryCenter(object: Object3D, target: Vector3 = new Vector3()): Vector3 {
+  const box = getWorldBounds(object);
+  return box.isEmpty() ? object.getWorldPosition(target) : box.getCenter(target);
+}
+
+/**
+ * 计算对象在世界坐标下的包围盒
+ * 带几何体的对象只取自身（实例网格包含全部实例，蒙皮网格取当前姿态），其他节点取整个子树
+ * @param object 对象
+ * @returns 世界包围盒（可能为空）
+ */
+export function getWorldBounds(object: Object3D): Box3 {
+  const box = new Box3();
+  const bounded = object as Object3D & {
+    geometry?: BufferGeometry;
+    boundingBox?: Box3 | null;
+    computeBoundingBox?: () => void;
+  };
+  object.updateWorldMatrix(true, false);
+
+  if (bounded.geometry) {
+    let local: Box3 | null | undefined;
+    if (typeof bounded.computeBoundingBox === 'function') {
+      // InstancedMesh / SkinnedMesh 自身提供包围盒计算
+      bounded.computeBoundingBox();
+      local = bounded.boundingBox;
+    } else {
+      if (!bounded.geometry.boundingBox) {
+        bounded.geometry.computeBoundingBox();
+      }
+      local = bounded.geometry.boundingBox;
+    }
+    if (local) {
+      box.copy(local).applyMatrix4(object.matrixWorld);
+    }
+  } else {
+    box.setFromObject(object);
+  }
+  return box;
+}
+
+/**
+ * 获取对象从模型根节点起的层级路径（名称与子节点索引），重新加载后保持不变
+ * 路径在场景处截止，模型在场景中的位置不影响结果
+ * @param object 对象
+ * @returns 层级路径
+ */
+export function getNodePath(object: Object3D): string {
+  const segments: string[] = [];
+  let current: Object3D | null = object;
+  while (current && !(current as Scene).isScene) {
+    const parent: Object3D | null = current.parent;
+    const index = parent && !(parent as Scene).isScene ? parent.children.indexOf(current) : 0;
+    segments.unshift(`${index}:${current.name}`);
+    current = parent;
+  }
+  return segments.join('/');
+}
+
 /**
  * 计算从中心点到对象的方向向量
  * @param object 对象
@@ -46,18 +112,16 @@ export function createTextSprite(text: string, color: string = '#2563EB'): Sprit
  * @returns 方向向量（已归一化）
  */
 export function calculateDirection(object: Object3D, center: Vector3): Vector3 {
-  // 获取对象的世界坐标
-  const objectPosition = new Vector3();
-  object.getWorldPosition(objectPosition);
+  // 使用几何体的世界包围盒中心，而不是节点原点
+  const objectPosition = getGeometryCenter(object);
   
   // 计算方向向量（从中心点到对象）
   const direction = new Vector3().subVectors(objectPosition, center);
   
   // 如果方向向量长度过小（对象在中心点附近），则基于对象在层级中的位置生成一个稳定的伪随机方向
   if (direction.length() < EXPLODER_CONSTANTS.DIRECTION.MIN_LENGTH) {
-    // 使用对象的 uuid 作为随机种子，确保相同对象每次生成相同方向
-    const uuid = object.uuid || '';
-    const hash = hashString(uuid);
+    // 使用层级路径作为随机种子（uuid 每次加载都会变化），确保重新加载后方向一致
+    const hash = hashString(getNodePath(object));
     
     // 使用哈希值生成方向
     direction.set(
@@ -96,6 +160,34 @@ function hashString(str: string): number {
   return Math.abs(hash % 360); // 返回0-359之间的值，可用作角度
 }
 
+/**
+ * 判断对象是否命中部件选择器
+ * 名称和正则会沿父级向上匹配，直到 root（不含）为止，便于按组件名称选中其下所有网格
+ * @param object 对象
+ * @param selector 部件选择器
+ * @param root 匹配的上溯边界（通常为模型根节点）
+ * @returns 是否命中
+ */
+export function matchesPart(object: Object3D, selector: PartSelector, root?: Object3D): boolean {
+  if (typeof selector === 'function') {
+    return selector(object);
+  }
+
+  let current: Object3D | null = object;
+  while (current && current !== root) {
+    if (selector instanceof Object3D) {
+      if (current === selector) return true;
+    } else if (typeof selector === 'string') {
+      if (current.name === selector) return true;
+    } else if (current.name.search(selector) !== -1) {
+      // search 忽略 lastIndex，带 g / y 标志的正则不会因前一次匹配而漏检
+      return true;
+    }
+    current = current.parent;
+  }
+  return false;
+}
+
 /**
  * 获取 DOM 元素
  * @param container 容器元素或选择器
@@ -0,0 +1,10 @@
+/**
+ * 无头入口：只包含爆炸引擎与模式注册，不依赖 DOM、渲染器与样式，可在 Node 或 Web Worker 中使用
+ */
+export { ExplosionEngine } from './core/Engine';
+export { InstanceProxy } from './core/Instancing';
+
+// 导出类型和枚举
+export type { ExploderOptions, ProgressChangeCallback, AnimateOptions, ExplosionAnimation, EasingFunction, EasingName, ExplosionSequence, PartSelector, StaggerKey, PartOverride, ExplosionGranularity, PartRotation, ExplosionModeId, ExplosionModeContext, ExplosionModeDefinition, StraddlePolicy, FocusExplosion, ExplosionCenter, UpAxis, ModeParamSchema, ModeParamValues } from './core/types';
+export { ExplosionMode } from './core/types';
+export { registerExplosionMode, unregisterExplosionMode, getExplosionModes, getBaseDistance } from './core/ModeRegistry';
@@ -1,15 +1,19 @@
-import { Object3D, Scene, Camera, WebGLRenderer, Vector3, PerspectiveCamera, AmbientLight, DirectionalLight, Color, ACESFilmicToneMapping } from 'three';
-import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { Object3D, Scene, Camera, WebGLRenderer, Vector3, Box3, PerspectiveCamera, AmbientLight, DirectionalLight, Color, ACESFilmicToneMapping } from 'three';
 import { ArcballControls } from 'three/examples/jsm/controls/ArcballControls.js';
 import './ui/base.css';
 import { ExploderCore } from './core';
+import { InternalLighting } from './core/InternalLighting';
 import { InteractionManager } from './core/InteractionManager';
-import { ExploderUI, ExploderOptions, ExplosionMode, ModelChangeCallback, HelperVisibilityChangeCallback, EXPLODER_CONSTANTS, ProgressChangeCallback } from './core/types';
+import { ExploderUI, ExploderOptions, ExplosionMode, ExplosionModeId, ModelChangeCallback, HelperVisibilityChangeCallback, EXPLODER_CONSTANTS, ProgressChangeCallback, AnimateOptions, ExplosionAnimation, ExplosionSequence, PartSelector, PartOverride, ExplosionGranularity, PartRotation, StraddlePolicy, FocusExplosion, ExplosionCenter, AxisSource, AutoFrameMode, HudTarget, ModeParamValues, LoadProgressCallback, LoadErrorCallback } from './core/types';
 import { createUI } from './ui';
 import { createStyles } from './ui/styles';
 import { ExploderZoomControls } from './ui/ExploderZoomControls';
 import { ExploderContextMenu } from './ui/ExploderContextMenu';
+import { ExploderLoadingOverlay } from './ui/ExploderLoadingOverlay';
 import { calculateFaceCount, getFileName, getBoundingBox } from './core/utils';
+import { createResolvedAnimation, combineAnimations } from './core/Tween';
+import { getExplosionMode, getExplosionModes } from './core/ModeRegistry';
+import { loadModelFile, isAbortError, createDecoders, disposeDecoders, GLTFDecoders } from './core/ModelLoader';
 
 /**
  * GLTFExploder 类
@@ -17,6 +21,16 @@ import { calculateFaceCount, getFileName, getBoundingBox } from './core/utils';
  */
 export class GLTFExploder {
   private core: ExploderCore | null = null;
+  /** 场景中所有模型的核心（core 为其中当前激活的一个） */
+  private cores: ExploderCore[] = [];
+  /** 模型的展示名称（文件名或模型名） */
+  private modelNames = new Map<Object3D, string>();
+  /** 由本实例加入场景的模型（移除模型时只从场景中移除这些） */
+  private addedModels = new Set<Object3D>();
+  private hudTarget: HudTarget = 'active';
+  /** 内部无影灯，整个爆炸器共用一套（多个模型时不叠加亮度） */
+  private lighting: InternalLighting | null = null;
+  private progressChangeCallback: ProgressChangeCallback | null = null;
   private ui: ExploderUI | null = null;
   private renderer: WebGLRenderer | null = null;
   private scene: Scene | null = null;
@@ -27,10 +41,31 @@ export class GLTFExploder {
   private interactionManager: InteractionManager | null = null;
   private contextMenu: ExploderContextMenu | null = null;
   private boundOnWheel: ((event: WheelEvent) => void) | null = null;
+  private loadingOverlay: ExploderLoadingOverlay | null = null;
+  /** 尚未完成的模型加载数量 */
+  private pendingLoads = 0;
+  /** 当前 loadModel 的取消控制器，新的 loadModel 会取消尚未完成的上一次 */
+  private modelLoadController: AbortController | null = null;
+  /** 压缩模型解码器（首次加载时按 options.decoders 创建） */
+  private decoders: Promise<GLTFDecoders> | null = null;
+  private resolveReady!: () => void;
+  private rejectReady!: (error: Error) => void;
+
+  /** 首个模型加载完成、爆炸器可用时兑现；在此之前当前的模型加载（初始加载或取代它的加载）失败时拒绝 */
+  public readonly ready: Promise<void>;
   
   private onModelChangeCallback?: ModelChangeCallback;
   private onHelperVisibilityChangeCallback?: HelperVisibilityChangeCallback;
+  private onLoadProgressCallback?: LoadProgressCallback;
+  private onLoadErrorCallback?: LoadErrorCallback;
   private options: ExploderOptions;
+  private autoFrame: AutoFrameMode = 'off';
+  /** 上次取景时的模型包围盒，用于检测部件位置是否变化 */
+  private lastFrameBounds = new Box3();
+  /** 部件位置或显隐是否在上次取景后发生过变化 */
+  private frameDirty = true;
+  /** 自动取景的目标视角（控制器目标点与相机距离） */
+  private frameGoal: { center: Vector3; distance: number } | null = null;
   
   /**
    * 构造函数
@@ -45,16 +80,26 @@ export class GLTFExploder {
     renderer?: WebGLRenderer,
     options: ExploderOptions = {}
   ) {
+    this.ready = new Promise((resolve, reject) => {
+      this.resolveReady = resolve;
+      this.rejectReady = reject;
+    });
+    // 加载失败已通过遮罩与错误回调报告，未监听 ready 时不产生未处理的拒绝
+    this.ready.catch(() => {});
+
     if (arg1 instanceof Object3D && scene && camera && renderer) {
       // 模式 2: 手动集成模式
       this.options = options;
+      this.setAutoFrame(options.autoFrame ?? 'off');
       this.renderer = renderer;
       this.scene = scene;
       this.camera = camera;
+      this.lighting = new InternalLighting(scene, camera);
       this.initCore(arg1, scene, camera, renderer, options);
     } else {
       // 模式 1: 全自动模式
       this.options = arg1 as ExploderOptions;
+      this.autoFrame = this.options.autoFrame ?? 'off';
       this.initializeAutoMode();
     }
   }
@@ -105,6 +150,10 @@ export class GLTFExploder {
     
     this.container.appendChild(this.renderer.domElement);
 
+    if (this.options.showLoading !== false) {
+      this.loadingOverlay = new ExploderLoadingOverlay(this.container, createStyles(this.options.uiStyle));
+    }
+
     this.controls = new ArcballControls(this.camera, this.renderer.domElement, this.scene);
     
     // 针对移动端和自由旋转优化
@@ -166,26 +215,16 @@ export class GLTFExploder {
     extraFillLight.target = extraTarget;
     cameraLightGroup.add(extraFillLight);
 
+    // 内部 6 点位无影灯
+    this.lighting = new InternalLighting(this.scene, this.camera);
+
     // 5. 加载模型
     // 优先级: modelUrl > model(string) > model(Object3D)
     const finalUrl = modelUrl || (typeof model === 'string' ? model : null);
     
     if (finalUrl) {
-      const loader = new GLTFLoader();
-      loader.load(finalUrl, (gltf) => {
-        const loadedModel = gltf.scene;
-        
-        // 启用模型阴影
-        loadedModel.traverse((node) => {
-          if ((node as any).isMesh) {
-            node.castShadow = true;
-            node.receiveShadow = true;
-          }
-        });
-
-        this.scene?.add(loadedModel);
-        this.initCore(loadedModel, this.scene!, this.camera!, this.renderer!, this.options);
-      });
+      // 失败已由 loadModel 报告，并在首个模型就绪前拒绝 ready
+      this.loadModel(finalUrl, this.options.modelFormat).catch(() => {});
     } else if (model instanceof Object3D) {
       // 启用模型阴影
       model.traverse((node) => {
@@ -196,7 +235,11 @@ export class GLTFExploder {
       });
       
       this.scene.add(model);
+      this.addedModels.add(model);
       this.initCore(model, this.scene, this.camera, this.renderer, this.options);
+    } else {
+      // 没有初始模型，场景就绪即可使用
+      this.resolveReady();
     }
 
     // 6. 启动渲染循环
@@ -220,6 +263,7 @@ export class GLTFExploder {
 
   private animate(): void {
     requestAnimationFrame(this.animate.bind(this));
+    this.updateAutoFrame();
     if (this.controls) this.controls.update();
     
     // 更新 UI (例如同步相机视角的测量线)
@@ -234,25 +278,28 @@ export class GLTFExploder {
 
   /**
    * 初始化核心引擎和 UI
+   * @param sourceName 模型来源名称（上传的文件名或加载地址中的文件名）
    */
-  private initCore(model: Object3D, scene: Scene, camera: Camera, renderer: WebGLRenderer, options: ExploderOptions): void {
-    // 销毁旧核心（如果存在），但保留 UI
+  private initCore(model: Object3D, scene: Scene, camera: Camera, renderer: WebGLRenderer, options: ExploderOptions, sourceName?: string): void {
+    // 替换当前激活模型的核心（如果存在），但保留 UI
+    const index = this.core ? this.cores.indexOf(this.core) : -1;
     if (this.core) {
       this.core.dispose();
     }
     
     this.core = new ExploderCore(model, scene, camera, renderer, options);
+    if (index >= 0) {
+      this.cores[index] = this.core;
+    } else {
+      this.cores.push(this.core);
+    }
+    this.prepareCore(this.core);
 
     // 计算面数和获取名称
     const faceCount = calculateFaceCount(model);
-    let modelName = 'Unknown Model';
-    if (this.options.modelUrl) {
-      modelName = getFileName(this.options.modelUrl);
-    } else if (typeof options.model === 'string') {
-      modelName = getFileName(options.model);
-    } else if (model.name) {
-      modelName = model.name;
-    }
+    // 名称取自实际加载的来源（文件名或地址），而不是初始配置的 modelUrl
+    const modelName = sourceName ?? this.modelNames.get(model) ?? (model.name || 'Unknown Model');
+    this.modelNames.set(model, modelName);
 
     // 初始化交互管理器
     if (!this.interactionManager) {
@@ -267,16 +314,30 @@ export class GLTFExploder {
 
       // 设置选中回调，更新 UI 信息
       this.interactionManager.setOnSelect((mesh) => {
+        // 选中部件时激活其所属模型，局部聚焦爆炸跟随选中的部件
+        const owner = mesh ? this.findCore(mesh) : null;
+        if (owner && owner !== this.core) {
+          this.activateCore(owner);
+        }
+        this.cores.forEach(core => core.setFocusTarget(core === owner ? mesh : null));
+
         if (mesh) {
           // 选中了网格，更新左上角 HUD 显示组件名称
           const name = mesh.name || '未命名组件';
           this.ui?.updateInfo?.(name, calculateFaceCount(mesh));
         } else {
           // 取消选中，恢复模型整体信息
-          this.ui?.updateInfo?.(modelName, faceCount);
+          this.updateInfoHUD();
         }
       });
 
+      // 部件显隐变化后，按可见部件重新计算爆炸布局（需开启 visibilityAware）
+      this.interactionManager.setOnVisibilityChange(() => {
+        this.frameDirty = true;
+        this.cores.forEach(core => core.refreshVisibility());
+        this.updateAxisIndicator();
+      });
+
       // 设置适配视图回调
       this.interactionManager.setOnFitToView((meshes) => {
         this.fitToView(meshes);
@@ -300,7 +361,9 @@ export class GLTFExploder {
         const hasHidden = this.interactionManager?.hasHiddenMeshes() || false;
         this.contextMenu.show(clientX, clientY, {
           showHide: !!mesh,
-          showShowAll: hasHidden
+          showShowAll: hasHidden,
+          showSetCenter: !!mesh,
+          showPickCenter: !!this.ui?.pickPoint
         });
       });
     }
@@ -317,6 +380,15 @@ export class GLTFExploder {
       this.contextMenu.setOnShowAll(() => {
         this.interactionManager?.showAllMeshes();
       });
+      this.contextMenu.setOnSetCenter(() => {
+        const selected = this.interactionManager?.getSelectedMesh();
+        if (selected) {
+          this.setExplosionCenter(selected);
+        }
+      });
+      this.contextMenu.setOnPickCenter(() => {
+        this.pickExplosionCenter();
+      });
     }
 
     // 只有在 UI 不存在时才创建
@@ -346,24 +418,30 @@ export class GLTFExploder {
         this.core.getAxialVector(),
         options.showHelpers ?? false,
         modelName,
-        faceCount
+        faceCount,
+        this.handleAxisSourceChange.bind(this),
+        (mode, key, value) => this.setModeParams(mode, { [key]: value })
       );
+      this.syncModeParams();
       
       // 同步模型缩放比例到 UI
       if (this.ui && this.ui.updateModelScale) {
         this.ui.updateModelScale(this.core.getVisualScale());
       }
     } else if (this.ui) {
-      // 如果 UI 已存在，仅更新其显示信息
+      // 如果 UI 已存在，仅更新其显示信息与测量吸附目标
       this.ui.update(EXPLODER_CONSTANTS.PROGRESS.DEFAULT);
-      if (this.ui.updateInfo) {
-        this.ui.updateInfo(modelName, faceCount);
-      }
+      this.updateInfoHUD();
       if (this.ui.updateModelScale) {
         this.ui.updateModelScale(this.core.getVisualScale());
       }
+      this.ui.updateSnapTargets?.(this.getModels());
     }
 
+    // 网格地面贴合模型底部，并同步爆炸轴指示箭头
+    this.refreshSceneHelpers();
+    this.resolveReady();
+
     // 只有在缩放控件不存在时才创建
     if (this.container && this.controls && !this.zoomControls) {
       const styles = createStyles(options.uiStyle);
@@ -400,49 +478,86 @@ export class GLTFExploder {
   /**
    * 处理模型切换
    * @param modelPath 模型路径
+   * @param format 模型格式（上传的文件或配置了 format 的模型选项）
+   * @param name 上传的文件名
    */
-  private handleModelChange(modelPath: string): void {
+  private handleModelChange(modelPath: string, format?: string, name?: string): void {
     if (this.onModelChangeCallback) {
-      this.onModelChangeCallback(modelPath);
+      this.onModelChangeCallback(modelPath, format, name);
     } else if (this.container && this.scene) {
-      // 如果是全自动模式且没有自定义回调，则自动加载新模型
-      this.loadModelAuto(modelPath);
+      // 如果是全自动模式且没有自定义回调，则自动加载新模型（失败已由遮罩与错误回调报告）
+      this.loadModel(modelPath, format, name).catch(() => {});
     }
   }
 
   /**
-   * 内部自动加载模型方法
+   * 加载模型文件并启用模型阴影，同时向加载遮罩与回调报告进度和错误
+   * @param url 模型地址
+   * @param format 模型格式（默认按地址识别）
+   * @param signal 取消信号
    */
-  private loadModelAuto(modelPath: string): void {
-    if (!this.scene) return;
-    
-    const loader = new GLTFLoader();
-    loader.load(modelPath, (gltf) => {
-      // 1. 移除旧核心和模型
-      if (this.core) {
-        const oldModel = (this.core as any).model;
-        if (oldModel) this.scene?.remove(oldModel);
-        this.core.dispose();
+  private loadFile(url: string, format?: string, signal?: AbortSignal): Promise<Object3D> {
+    this.pendingLoads++;
+    this.loadingOverlay?.show();
+
+    const onProgress = (loaded: number, total: number) => {
+      this.loadingOverlay?.setProgress(loaded, total);
+      this.onLoadProgressCallback?.(loaded, total, url);
+    };
+
+    return this.getDecoders().then(decoders => loadModelFile(url, {
+      format,
+      onProgress,
+      signal,
+      decoders,
+      loader: this.options.gltfLoader
+    })).then((loadedModel) => {
+      this.finishLoad();
+      loadedModel.traverse((node) => {
+        if ((node as any).isMesh) {
+          node.castShadow = true;
+          node.receiveShadow = true;
+        }
+      });
+      return loadedModel;
+    }, (error: Error) => {
+      this.finishLoad();
+      if (!isAbortError(error)) {
+        this.loadingOverlay?.showError(error.message);
+        if (this.onLoadErrorCallback) {
+          this.onLoadErrorCallback(error, url);
+        } else {
+          console.warn(`GLTFExploder: 模型加载失败 (${url})`, error);
+        }
       }
+      throw error;
+    });
+  }
 
-      // 2. 添加新模型
-      const newModel = gltf.scene;
-      this.scene?.add(newModel);
-
-      // 3. 重新初始化核心（内部会处理 UI 更新或创建）
-      this.initCore(newModel, this.scene!, this.camera!, this.renderer!, this.options);
-
-      // 4. 更新 UI 特定状态（如模型路径）
-      if (this.ui && this.ui.updateModel) {
-        this.ui.updateModel(modelPath);
-      }
+  /**
+   * 获取（首次调用时按需加载并创建）压缩模型解码器
+   * @private
+   */
+  private getDecoders(): Promise<GLTFDecoders | null> {
+    if (!this.decoders && this.options.decoders && this.renderer && !this.options.gltfLoader) {
+      this.decoders = createDecoders(this.options.decoders, this.renderer).catch((error: Error) => {
+        // 解码器模块加载失败时允许下次加载重试
+        this.decoders = null;
+        throw error;
+      });
+    }
+    return this.decoders ?? Promise.resolve(null);
+  }
 
-      // 5. 如果是 Blob URL，释放它以防内存泄漏
-      if (modelPath.startsWith('blob:')) {
-        // 延迟释放，确保加载完成
-        setTimeout(() => URL.revokeObjectURL(modelPath), 1000);
-      }
-    });
+  /**
+   * 一次加载结束（成功、失败或取消），全部结束后隐藏加载遮罩
+   * @private
+   */
+  private finishLoad(): void {
+    this.pendingLoads = Math.max(0, this.pendingLoads - 1);
+    if (this.pendingLoads === 0) {
+      this.loadingOverlay?.hide();
+    }
   }
 
   /**
@@ -475,13 +590,322 @@ export class GLTFExploder {
   public setHelperVisibilityChangeCallback(callback: HelperVisibilityChangeCallback): void {
     this.onHelperVisibilityChangeCallback = callback;
   }
+
+  /**
+   * 设置模型加载进度回调
+   * @param callback 回调函数，参数为已加载字节数、总字节数（未知时为 0）与模型地址
+   */
+  public setLoadProgressCallback(callback: LoadProgressCallback): void {
+    this.onLoadProgressCallback = callback;
+  }
+
+  /**
+   * 设置模型加载失败回调（设置后不再输出控制台警告）
+   * @param callback 回调函数
+   */
+  public setLoadErrorCallback(callback: LoadErrorCallback): void {
+    this.onLoadErrorCallback = callback;
+  }
+
+  /**
+   * 加载模型并替换当前激活的模型，格式按扩展名识别（glTF/GLB、OBJ、STL、PLY、FBX、3MF 或已注册的格式）
+   * 快速连续调用时，尚未完成的上一次加载会被取消，其 Promise 以 name 为 'AbortError' 的错误拒绝
+   * @param url 模型地址（支持 Blob URL，加载结束后自动释放）
+   * @param format 模型格式（扩展名或 MIME 类型），地址中没有扩展名时使用
+   * @param name 显示的模型名称（默认取地址中的文件名；Blob URL 不含文件名，需显式传入）
+   * @returns 加载完成并接入爆炸器的模型
+   */
+  public loadModel(url: string, format?: string, name?: string): Promise<Object3D> {
+    if (!this.scene || !this.camera || !this.renderer) {
+      return Promise.reject(new Error('GLTFExploder: 场景尚未初始化'));
+    }
+
+    this.modelLoadController?.abort();
+    const controller = new AbortController();
+    this.modelLoadController = controller;
+
+    const loading = this.loadFile(url, format, controller.signal).then((newModel) => {
+      // 1. 移除当前激活的旧模型（旧核心由 initCore 销毁）
+      const oldModel = this.core?.getModel();
+      if (oldModel) {
+        this.scene?.remove(oldModel);
+        this.modelNames.delete(oldModel);
+        this.addedModels.delete(oldModel);
+      }
+
+      // 2. 添加新模型
+      this.scene?.add(newModel);
+      this.addedModels.add(newModel);
+
+      // 3. 重新初始化核心（内部会处理 UI 更新或创建），名称取自本次加载的来源
+      const sourceName = name ?? (url.startsWith('blob:') ? undefined : getFileName(url));
+      this.initCore(newModel, this.scene!, this.camera!, this.renderer!, this.options, sourceName);
+
+      // 4. 更新 UI 特定状态（如模型路径）
+      if (this.ui && this.ui.updateModel) {
+        this.ui.updateModel(url);
+      }
+      return newModel;
+    });
+
+    const release = () => {
+      if (this.modelLoadController === controller) {
+        this.modelLoadController = null;
+      }
+      // 如果是 Blob URL，释放它以防内存泄漏
+      if (url.startsWith('blob:')) {
+        setTimeout(() => URL.revokeObjectURL(url), 1000);
+      }
+    };
+    loading.then(release, release);
+    // 首个模型就绪前，由当前的加载决定 ready：被取代的加载以取代它的加载结果为准（ready 兑现后不再变化）
+    loading.catch((error: Error) => {
+      if (!isAbortError(error)) {
+        this.rejectReady(error);
+      }
+    });
+    return loading;
+  }
   
   /**
    * 设置新模型
    * @param model 新的模型对象
    */
   public setModel(model: Object3D): void {
-    this.core?.setModel(model);
+    if (this.core) {
+      this.core.setModel(model);
+      this.layoutModel(this.core);
+      this.ui?.updateSnapTargets?.(this.getModels());
+    }
+    this.refreshSceneHelpers();
+  }
+
+  /**
+   * 向场景中再添加一个模型，与已有模型并排放置，拥有独立的爆炸状态、中心与模式
+   * 添加后该模型成为激活模型；尚无模型时等同于首次加载
+   * @param model 模型对象或模型地址
+   * @param format 模型格式（扩展名或 MIME 类型），地址中没有扩展名时使用
+   * @param name 显示的模型名称（默认取地址中的文件名或模型的 name）
+   * @returns 添加的模型
+   */
+  public addModel(model: Object3D | string, format?: string, name?: string): Promise<Object3D> {
+    if (!this.scene || !this.camera || !this.renderer) {
+      return Promise.reject(new Error('GLTFExploder: 场景尚未初始化'));
+    }
+
+    const loading = typeof model === 'string'
+      ? this.loadFile(model, format).then((loaded) => {
+        if (name || !model.startsWith('blob:')) {
+          this.modelNames.set(loaded, name ?? getFileName(model));
+        }
+        return loaded;
+      })
+      : Promise.resolve(model);
+    if (name && typeof model !== 'string') {
+      this.modelNames.set(model, name);
+    }
+
+    return loading.then((loaded) => {
+      if (!loaded.parent) {
+        this.scene!.add(loaded);
+        this.addedModels.add(loaded);
+      }
+
+      if (!this.core) {
+        this.initCore(loaded, this.scene!, this.camera!, this.renderer!, this.options);
+      } else {
+        const core = new ExploderCore(loaded, this.scene!, this.camera!, this.renderer!, this.options);
+        this.cores.push(core);
+        this.prepareCore(core);
+        this.activateCore(core);
+        this.refreshSceneHelpers();
+        this.ui?.updateSnapTargets?.(this.getModels());
+      }
+      return loaded;
+    });
+  }
+
+  /**
+   * 移除一个模型：还原其变换并释放其爆炸状态
+   * 由本实例加入场景的模型（初始模型、loadModel 加载或 addModel 添加时没有父节点的模型）会一并从场景中移除，
+   * 宿主自行加入场景的模型保留在原位
+   * @param model 通过 addModel 或初始配置加载的模型
+   */
+  public removeModel(model: Object3D): void {
+    const core = this.cores.find(item => item.getModel() === model);
+    if (!core) return;
+
+    const selected = this.interactionManager?.getSelectedMesh();
+    if (selected && this.findCore(selected) === core) {
+      this.interactionManager?.deselectMesh();
+    }
+
+    core.dispose();
+    this.cores = this.cores.filter(item => item !== core);
+    this.modelNames.delete(model);
+    if (this.addedModels.delete(model)) {
+      this.scene?.remove(model);
+    }
+    this.frameDirty = true;
+
+    if (this.core === core) {
+      this.core = null;
+      if (this.cores.length > 0) {
+        this.activateCore(this.cores[0]);
+      }
+    }
+    this.refreshSceneHelpers();
+    this.ui?.updateSnapTargets?.(this.getModels());
+  }
+
+  /**
+   * 获取场景中的所有模型
+   */
+  public getModels(): Object3D[] {
+    return this.cores.map(core => core.getModel());
+  }
+
+  /**
+   * 获取当前激活的模型
+   */
+  public getActiveModel(): Object3D | null {
+    return this.core ? this.core.getModel() : null;
+  }
+
+  /**
+   * 激活一个模型：HUD 显示并控制该模型的爆炸状态（选中部件时也会激活其所属模型）
+   * @param model 场景中的模型
+   */
+  public setActiveModel(model: Object3D): void {
+    const core = this.cores.find(item => item.getModel() === model);
+    if (core) {
+      this.activateCore(core);
+    }
+  }
+
+  /**
+   * 设置 HUD 与爆炸控制作用的范围：仅激活模型，或所有模型
+   * @param target 'active' | 'all'
+   */
+  public setHudTarget(target: HudTarget): void {
+    this.hudTarget = target;
+    this.updateInfoHUD();
+  }
+
+  /**
+   * HUD 与爆炸控制当前作用的核心
+   */
+  private targetCores(): ExploderCore[] {
+    if (this.hudTarget === 'all') return this.cores;
+    return this.core ? [this.core] : [];
+  }
+
+  /**
+   * 查找对象所属模型的核心
+   * @param object 模型中的任意节点
+   */
+  private findCore(object: Object3D): ExploderCore | null {
+    let current: Object3D | null = object;
+    while (current) {
+      const node: Object3D = current;
+      const owner = this.cores.find(core => core.getModel() === node);
+      if (owner) return owner;
+      current = current.parent;
+    }
+    return null;
+  }
+
+  /**
+   * 切换激活模型，并将 HUD 同步为该模型的状态
+   * @param core 模型的核心
+   */
+  private activateCore(core: ExploderCore): void {
+    this.core = core;
+    if (this.ui) {
+      this.ui.update(core.getProgress());
+      this.ui.updateMultiplier?.(core.getMultiplier());
+      this.ui.updateMode?.(core.getMode());
+      this.ui.updateAxialVector?.(core.getAxialVector());
+      this.ui.updateModelScale?.(core.getVisualScale());
+    }
+    this.syncModeParams();
+    this.updateInfoHUD();
+    this.updateAxisIndicator();
+  }
+
+  /**
+   * 将激活模型各模式的参数同步到面板
+   * @private
+   */
+  private syncModeParams(): void {
+    if (!this.ui?.updateModeParams || !this.core) return;
+    getExplosionModes().forEach(([mode, definition]) => {
+      if (definition.params) this.ui!.updateModeParams!(mode, this.core!.getModeParams(mode));
+    });
+  }
+
+  /**
+   * 新核心接入场景：并排布局、继承进度回调
+   * @param core 新创建的核心
+   */
+  private prepareCore(core: ExploderCore): void {
+    this.layoutModel(core);
+    if (this.progressChangeCallback) {
+      core.setProgressChangeCallback(this.progressChangeCallback);
+    }
+    core.setPartsChangeCallback(() => { this.frameDirty = true; });
+    this.frameDirty = true;
+  }
+
+  /**
+   * 将模型放在已有模型的右侧（+X），底面对齐
+   * 只在开启 adaptModel 时布局：自适应会把每个模型都居中到原点，关闭时保留模型自身的位置
+   * @param core 需要布局的核心
+   */
+  private layoutModel(core: ExploderCore): void {
+    const others = this.cores.filter(other => other !== core);
+    if (others.length === 0 || !core.getOptions().adaptModel) return;
+
+    const occupied = new Box3();
+    others.forEach(other => occupied.union(other.getModelBounds()));
+    const bounds = core.getModelBounds();
+    const radius = Math.max(core.getModelRadius(), ...others.map(other => other.getModelRadius()));
+    const gap = radius * EXPLODER_CONSTANTS.MULTI_MODEL.GAP;
+
+    const occupiedCenter = occupied.getCenter(new Vector3());
+    const center = bounds.getCenter(new Vector3());
+    const offset = new Vector3(
+      occupied.max.x + gap - bounds.min.x,
+      occupied.min.y - bounds.min.y,
+      occupiedCenter.z - center.z
+    );
+    core.setPlacement(core.getPlacement().add(offset));
+  }
+
+  /**
+   * 更新左上角信息：HUD 作用于所有模型时显示模型数量与总面数
+   */
+  private updateInfoHUD(): void {
+    if (!this.ui || !this.ui.updateInfo || !this.core) return;
+    if (this.hudTarget === 'all' && this.cores.length > 1) {
+      const faceCount = this.cores.reduce((sum, core) => sum + calculateFaceCount(core.getModel()), 0);
+      this.ui.updateInfo(`全部模型 (${this.cores.length})`, faceCount);
+    } else {
+      const model = this.core.getModel();
+      this.ui.updateInfo(this.modelNames.get(model) || model.name || 'Unknown Model', calculateFaceCount(model));
+    }
+  }
+
+  /**
+   * 网格地面贴合所有模型的底部，并同步爆炸轴指示箭头
+   */
+  private refreshSceneHelpers(): void {
+    if (this.cores.length > 0) {
+      const bounds = new Box3();
+      this.cores.forEach(core => bounds.union(core.getModelBounds()));
+      this.interactionManager?.fitHelpersToModel(bounds);
+    }
+    this.updateAxisIndicator();
   }
 
   /**
@@ -501,7 +925,10 @@ export class GLTFExploder {
    * @param visible 是否可见
    */
   public setInternalLightingVisible(visible: boolean): void {
-    this.core?.setInternalLightingVisible(visible);
+    this.lighting?.setVisible(visible);
+    if (this.renderer && this.scene && this.camera) {
+      this.renderer.render(this.scene, this.camera);
+    }
     if (this.ui && this.ui.updateHelperVisibility) {
       this.ui.updateHelperVisibility(visible);
     }
@@ -512,7 +939,7 @@ export class GLTFExploder {
    * @param progress 进度值（0-1）
    */
   public setProgress(progress: number): void {
-    this.core?.setProgress(progress);
+    this.targetCores().forEach(core => core.setProgress(progress));
     
     // 更新 UI
     if (this.ui) {
@@ -520,12 +947,55 @@ export class GLTFExploder {
     }
   }
 
+  /**
+   * 以动画方式过渡到目标进度，播放过程中同步驱动 HUD 进度条
+   * @param progress 目标进度值（0-1）
+   * @param options 动画选项（时长、缓动、目标模式与系数）
+   * @returns 可取消的动画 Promise，完成时兑现为 true，被取消时兑现为 false
+   */
+  public animateTo(progress: number, options: AnimateOptions = {}): ExplosionAnimation {
+    const cores = this.targetCores();
+    if (cores.length === 0) {
+      return createResolvedAnimation(false);
+    }
+
+    const animation = combineAnimations(cores.map(core => core.animateTo(progress, {
+      ...options,
+      // HUD 与回调只跟随激活模型
+      onUpdate: core !== this.core ? undefined : (current) => {
+        if (this.ui) {
+          this.ui.update(current);
+          if (options.multiplier !== undefined && this.ui.updateMultiplier && this.core) {
+            this.ui.updateMultiplier(this.core.getMultiplier());
+          }
+        }
+        options.onUpdate?.(current);
+      }
+    })));
+
+    // 模式按钮立即切换到核心接受的模式（未注册的模式已被核心忽略），位置由核心平滑过渡
+    if (options.mode !== undefined && this.core) {
+      if (this.ui && this.ui.updateMode) {
+        this.ui.updateMode(this.core.getMode());
+      }
+      this.updateAxisIndicator();
+    }
+    return animation;
+  }
+
+  /**
+   * 取消正在播放的爆炸动画
+   */
+  public cancelAnimation(): void {
+    this.cores.forEach(core => core.cancelAnimation());
+  }
+
   /**
    * 设置爆炸系数
    * @param multiplier 系数
    */
   public setMultiplier(multiplier: number): void {
-    this.core?.setMultiplier(multiplier);
+    this.targetCores().forEach(core => core.setMultiplier(multiplier));
     
     // 更新 UI
     if (this.ui && this.ui.updateMultiplier) {
@@ -533,6 +1003,25 @@ export class GLTFExploder {
     }
   }
 
+  /**
+   * 自动计算并应用使完全爆炸后部件互不重叠的最小爆炸系数
+   * @returns 应用的爆炸系数，激活模型在最大系数下仍无法分离时返回 null（系数保持不变）
+   */
+  public autoFitMultiplier(): number | null {
+    if (!this.core) return null;
+
+    // 每个模型按自身部件计算，返回激活模型的系数
+    let fitted: number | null = null;
+    this.targetCores().forEach(core => {
+      const result = core.autoFitMultiplier();
+      if (core === this.core) fitted = result;
+    });
+    if (this.ui && this.ui.updateMultiplier) {
+      this.ui.updateMultiplier(this.core.getMultiplier());
+    }
+    return fitted;
+  }
+
   /**
    * 设置渲染亮度
    * @param exposure 亮度
@@ -546,7 +1035,7 @@ export class GLTFExploder {
       this.renderer.toneMappingExposure = exposure;
       
       // 2. 同时更新内部灯光的强度，这样即使用户没有开启 toneMapping，也能看到亮度变化
-      this.core?.setInternalLightingExposure(exposure);
+      this.lighting?.setExposure(exposure);
       
       // 更新 UI
       if (this.ui && this.ui.updateExposure) {
@@ -557,28 +1046,236 @@ export class GLTFExploder {
 
   /**
    * 设置爆炸模式
-   * @param mode 模式
+   * @param mode 模式（内置模式或通过 registerExplosionMode 注册的自定义模式）
    */
-  public setMode(mode: ExplosionMode): void {
-    this.core?.setMode(mode);
+  public setMode(mode: ExplosionModeId): void {
+    this.targetCores().forEach(core => core.setMode(mode));
     
-    // 更新 UI
+    // 更新 UI（未注册的模式会被忽略，以核心实际模式为准）
     if (this.ui && this.ui.updateMode) {
-      this.ui.updateMode(mode);
+      this.ui.updateMode(this.core?.getMode() ?? mode);
     }
+    this.updateAxisIndicator();
   }
   
   /**
    * 设置轴向向量
-   * @param vector 轴向向量
+   * @param vector 轴向向量（任意方向，无需归一化）
    */
   public setAxialVector(vector: Vector3): void {
-    this.core?.setAxialVector(vector);
+    this.targetCores().forEach(core => core.setAxialVector(vector));
     
     // 更新 UI
     if (this.ui && this.ui.updateAxialVector) {
       this.ui.updateAxialVector(vector);
     }
+    this.updateAxisIndicator();
+  }
+
+  /**
+   * 使用模型主轴（顶点分布的 PCA）作为轴向
+   * @param index 0 为最长主轴，1 为次轴，2 为最短轴（通常是扁平模型的法向）
+   */
+  public setAxisFromPrincipalAxis(index: 0 | 1 | 2): void {
+    const axis = this.core?.getPrincipalAxes()[index];
+    if (axis) {
+      this.setAxialVector(axis);
+    }
+  }
+
+  /**
+   * 在视口中点击拾取面法线或边方向作为轴向
+   * @param source 'face' 取面法线，'edge' 取边方向
+   * @returns 拾取到的轴向，取消或没有 UI 时为 null
+   */
+  public pickAxis(source: 'face' | 'edge'): Promise<Vector3 | null> {
+    return new Promise((resolve) => {
+      if (!this.ui?.pickAxis) {
+        resolve(null);
+        return;
+      }
+      this.ui.pickAxis(source, (axis) => {
+        if (axis) {
+          this.setAxialVector(axis);
+        } else if (this.core && this.ui?.updateAxialVector) {
+          // 取消拾取，面板恢复显示当前轴向
+          this.ui.updateAxialVector(this.core.getAxialVector());
+        }
+        resolve(axis);
+      });
+    });
+  }
+
+  /**
+   * 面板选择轴向来源的处理
+   * @param source 轴向来源
+   */
+  private handleAxisSourceChange(source: AxisSource): void {
+    switch (source) {
+      case 'principal-major':
+        this.setAxisFromPrincipalAxis(0);
+        break;
+      case 'principal-middle':
+        this.setAxisFromPrincipalAxis(1);
+        break;
+      case 'principal-minor':
+        this.setAxisFromPrincipalAxis(2);
+        break;
+      case 'face':
+      case 'edge':
+        this.pickAxis(source);
+        break;
+    }
+  }
+
+  /**
+   * 更新爆炸轴指示箭头：从爆炸中心沿当前轴向绘制，仅在使用轴向的模式下显示
+   */
+  private updateAxisIndicator(): void {
+    if (!this.interactionManager) return;
+    if (!this.core) {
+      this.interactionManager.setAxisIndicator(new Vector3(), new Vector3(0, 1, 0), 1, false);
+      return;
+    }
+    this.interactionManager.setAxisIndicator(
+      this.core.getExplosionCenter(),
+      this.core.getAxialVector(),
+      this.core.getModelRadius() * EXPLODER_CONSTANTS.AXES.INDICATOR_LENGTH,
+      !!getExplosionMode(this.core.getMode())?.usesAxis
+    );
+  }
+
+  /**
+   * 设置爆炸序列（分阶段或交错），传入 null 恢复所有部件同步移动
+   * @param sequence 序列配置
+   */
+  public setSequence(sequence: ExplosionSequence | null): void {
+    this.targetCores().forEach(core => core.setSequence(sequence));
+  }
+
+  /**
+   * 设置部件随爆炸进度旋转的全局配置（自转或向外倾斜），传入 null 关闭旋转
+   * @param rotation 旋转配置
+   */
+  public setRotation(rotation: PartRotation | null): void {
+    this.targetCores().forEach(core => core.setRotation(rotation));
+  }
+
+  /**
+   * 设置爆炸中心
+   * @param center 世界坐标点、部件（取其包围盒中心）、'bbox'（模型包围盒中心）或 'centroid'（体积加权质心）
+   */
+  public setExplosionCenter(center: ExplosionCenter): void {
+    // 部件只能作为其所属模型的爆炸中心
+    const owner = center instanceof Object3D ? this.findCore(center) ?? this.core : null;
+    const cores = owner ? [owner] : this.targetCores();
+    cores.forEach(core => core.setExplosionCenter(center));
+    this.updateAxisIndicator();
+  }
+
+  /**
+   * 在视口中点击拾取爆炸中心（吸附到模型表面、边或顶点）
+   * @returns 拾取到的点，取消或没有 UI 时为 null
+   */
+  public pickExplosionCenter(): Promise<Vector3 | null> {
+    return new Promise((resolve) => {
+      if (!this.ui?.pickPoint) {
+        resolve(null);
+        return;
+      }
+      this.ui.pickPoint((point) => {
+        if (point) {
+          this.setExplosionCenter(point);
+        }
+        resolve(point);
+      });
+    });
+  }
+
+  /**
+   * 开启或关闭可见性感知：开启后隐藏、隔离或重新显示部件时，按剩余可见部件重新计算爆炸中心、尺寸与方向
+   * @param enabled 是否开启
+   */
+  public setVisibilityAware(enabled: boolean): void {
+    this.targetCores().forEach(core => core.setVisibilityAware(enabled));
+    this.updateAxisIndicator();
+  }
+
+  /**
+   * 在外部直接修改部件 visible 后调用，按当前可见部件重新计算爆炸布局（需开启可见性感知）
+   */
+  public refreshVisibility(): void {
+    this.frameDirty = true;
+    this.cores.forEach(core => core.refreshVisibility());
+    this.updateAxisIndicator();
+  }
+
+  /**
+   * 设置局部聚焦爆炸：开启后选中部件时只爆炸其附近的部件，传入 null 恢复整体爆炸
+   * @param focus 聚焦配置（影响半径与衰减曲线）
+   */
+  public setFocus(focus: FocusExplosion | null): void {
+    this.targetCores().forEach(core => core.setFocus(focus));
+  }
+
+  /**
+   * 设置平面剖分模式下跨越剖分平面的部件处理策略
+   * @param policy 处理策略（nearest / stay / positive / negative）
+   */
+  public setStraddlePolicy(policy: StraddlePolicy): void {
+    this.targetCores().forEach(core => core.setStraddlePolicy(policy));
+  }
+
+  /**
+   * 设置爆炸模式参数（与已设置的参数合并）
+   * @param mode 爆炸模式
+   * @param params 参数值，如 { invert: true }
+   */
+  public setModeParams(mode: ExplosionModeId, params: ModeParamValues): void {
+    this.targetCores().forEach(core => core.setModeParams(mode, params));
+    if (this.ui?.updateModeParams && this.core) {
+      this.ui.updateModeParams(mode, this.core.getModeParams(mode));
+    }
+  }
+
+  /**
+   * 获取激活模型的爆炸模式参数
+   * @param mode 爆炸模式（默认为当前模式）
+   */
+  public getModeParams(mode?: ExplosionModeId): ModeParamValues {
+    return this.core?.getModeParams(mode) ?? {};
+  }
+
+  /**
+   * 设置爆炸粒度（按网格、顶层子节点、指定深度、名称或材质分组）
+   * @param granularity 爆炸粒度
+   */
+  public setGranularity(granularity: ExplosionGranularity): void {
+    this.targetCores().forEach(core => core.setGranularity(granularity));
+  }
+
+  /**
+   * 为匹配的部件设置爆炸覆盖（锁定、排除、自定义方向或距离缩放）
+   * @param selector 部件选择器（网格引用、名称、正则或谓词）
+   * @param override 覆盖配置
+   */
+  public setPartOverride(selector: PartSelector, override: PartOverride): void {
+    this.targetCores().forEach(core => core.setPartOverride(selector, override));
+  }
+
+  /**
+   * 移除指定选择器的覆盖配置
+   * @param selector 添加时使用的同一选择器
+   */
+  public removePartOverride(selector: PartSelector): void {
+    this.targetCores().forEach(core => core.removePartOverride(selector));
+  }
+
+  /**
+   * 清除所有部件覆盖配置
+   */
+  public clearPartOverrides(): void {
+    this.targetCores().forEach(core => core.clearPartOverrides());
   }
 
   /**
@@ -586,7 +1283,7 @@ export class GLTFExploder {
    */
   public reset(): void {
     // 1. 重置核心算法状态
-    this.core?.reset();
+    this.targetCores().forEach(core => core.reset());
     
     // 2. 重置相机视角 (全自动模式)
     if (this.controls && this.camera && this.options.adaptModel) {
@@ -631,34 +1328,70 @@ export class GLTFExploder {
 
   /**
    * 自动适配视图，使指定网格居中并填满屏幕
-   * @param overrideMeshes 可选的网格列表，如果不提供则自动计算场景中所有可见的网格
+   * @param overrideMeshes 可选的网格列表，如果不提供则自动计算模型中所有可见的网格
    */
   public fitToView(overrideMeshes?: Object3D[]): void {
     if (!this.camera || !this.controls || !this.core) return;
 
-    let targetMeshes: Object3D[] = [];
-    if (overrideMeshes && overrideMeshes.length > 0) {
-      targetMeshes = overrideMeshes;
-    } else {
-      // 收集场景中所有可见的网格
-      this.scene?.traverse((obj) => {
-        if ((obj as any).isMesh && obj.visible) {
-          targetMeshes.push(obj);
-        }
-      });
+    const targetMeshes = overrideMeshes && overrideMeshes.length > 0
+      ? overrideMeshes
+      : this.collectVisibleMeshes();
+    if (targetMeshes.length === 0) return;
+
+    // 1. 计算包围盒与取景
+    const framing = this.computeFraming(getBoundingBox(targetMeshes));
+
+    // 2. 更新控制器目标点为中心点
+    this.controls.target.copy(framing.center);
+
+    // 3. 平移相机，保持当前的观察角度，只调整距离
+    const direction = new Vector3()
+      .subVectors(this.camera.position, framing.center)
+      .normalize();
+    
+    this.camera.position.copy(framing.center).add(direction.multiplyScalar(framing.distance));
+    this.camera.lookAt(framing.center);
+    this.controls.update();
+  }
+
+  /**
+   * 设置自动取景：爆炸过程中部件位置变化后调整相机距离与目标点，使模型保持在视口内
+   * 用户旋转或缩放相机不会触发取景，只有部件移动才会
+   * 仅在全自动模式下生效：手动集成模式的相机与控制器由宿主驱动
+   * @param mode 取景方式（'off' | 'instant' | 'smooth'）
+   */
+  public setAutoFrame(mode: AutoFrameMode): void {
+    if (mode !== 'off' && !this.container) {
+      console.warn('GLTFExploder: 自动取景仅在全自动模式下生效，手动集成模式的相机由宿主控制');
     }
+    this.autoFrame = mode;
+    this.frameGoal = null;
+    // 清空记录的包围盒，开启后立即取景一次
+    this.lastFrameBounds.makeEmpty();
+    this.frameDirty = true;
+  }
 
-    if (targetMeshes.length === 0) return;
+  /**
+   * 收集所有模型中可见的网格（不含网格地面、轴向箭头等辅助对象）
+   */
+  private collectVisibleMeshes(): Object3D[] {
+    const meshes: Object3D[] = [];
+    this.cores.forEach(core => core.getModel().traverseVisible((obj) => {
+      if ((obj as any).isMesh || (obj as any).isPoints || (obj as any).isLine) {
+        meshes.push(obj);
+      }
+    }));
+    return meshes;
+  }
 
-    // 1. 计算包围盒
-    const box = getBoundingBox(targetMeshes);
+  /**
+   * 计算使包围盒填满视口的控制器目标点与相机距离
+   * @param box 包围盒
+   */
+  private computeFraming(box: Box3): { center: Vector3; distance: number } {
     const center = box.getCenter(new Vector3());
     const size = box.getSize(new Vector3());
 
-    // 2. 更新控制器目标点为中心点
-    this.controls.target.copy(center);
-
-    // 3. 计算相机位置
     // 基于包围盒大小和相机 Fov 计算距离
     const maxDim = Math.max(size.x, size.y, size.z);
     const fov = (this.camera as PerspectiveCamera).fov;
@@ -666,23 +1399,58 @@ export class GLTFExploder {
     
     // 考虑纵横比，取较小的一个
     const fovRad = (fov * Math.PI) / 180;
-    let cameraDistance = maxDim / (2 * Math.tan(fovRad / 2));
+    let distance = maxDim / (2 * Math.tan(fovRad / 2));
     
     // 如果横向更宽，需要额外增加距离
     const widthDist = (maxDim / aspect) / (2 * Math.tan(fovRad / 2));
-    cameraDistance = Math.max(cameraDistance, widthDist);
+    distance = Math.max(distance, widthDist);
 
     // 增加一点边距
-    cameraDistance *= 1.2;
+    distance *= 1.2;
 
-    // 4. 平移相机，保持当前的观察角度，只调整距离
-    const direction = new Vector3()
-      .subVectors(this.camera.position, center)
-      .normalize();
-    
-    this.camera.position.copy(center).add(direction.multiplyScalar(cameraDistance));
-    this.camera.lookAt(center);
-    this.controls.update();
+    return { center, distance };
+  }
+
+  /**
+   * 部件位置或显隐变化后重新计算包围盒，并按取景方式逐帧向目标视角过渡
+   */
+  private updateAutoFrame(): void {
+    if (this.autoFrame === 'off' || !this.camera || !this.controls || !this.core) return;
+
+    // 部件没有变化时不遍历模型，只继续未完成的过渡
+    const meshes = this.frameDirty ? this.collectVisibleMeshes() : [];
+    this.frameDirty = false;
+    if (meshes.length > 0) {
+      const box = getBoundingBox(meshes);
+      if (!box.isEmpty() && !box.equals(this.lastFrameBounds)) {
+        this.lastFrameBounds.copy(box);
+        this.frameGoal = this.computeFraming(box);
+      }
+    }
+
+    const goal = this.frameGoal;
+    if (!goal) return;
+
+    const { DAMPING, EPSILON } = EXPLODER_CONSTANTS.AUTO_FRAME;
+    const factor = this.autoFrame === 'instant' ? 1 : DAMPING;
+    const target = this.controls.target;
+    const offset = new Vector3().subVectors(this.camera.position, target);
+    const distance = offset.length();
+    if (distance === 0) offset.set(0, 0, 1);
+
+    target.lerp(goal.center, factor);
+    const nextDistance = distance + (goal.distance - distance) * factor;
+    const settled = factor === 1 || (
+      target.distanceTo(goal.center) < goal.distance * EPSILON &&
+      Math.abs(nextDistance - goal.distance) < goal.distance * EPSILON
+    );
+    if (settled) {
+      target.copy(goal.center);
+      this.frameGoal = null;
+    }
+
+    this.camera.position.copy(target).add(offset.normalize().multiplyScalar(settled ? goal.distance : nextDistance));
+    this.camera.lookAt(target);
   }
 
   /**
@@ -697,7 +1465,8 @@ export class GLTFExploder {
    * @param callback 回调函数
    */
   public setProgressChangeCallback(callback: ProgressChangeCallback): void {
-    this.core?.setProgressChangeCallback(callback);
+    this.progressChangeCallback = callback;
+    this.cores.forEach(core => core.setProgressChangeCallback(callback));
   }
   
   /**
@@ -747,6 +1516,19 @@ export class GLTFExploder {
    * 释放资源
    */
   public dispose(): void {
+    this.modelLoadController?.abort();
+    this.modelLoadController = null;
+
+    if (this.loadingOverlay) {
+      this.loadingOverlay.dispose();
+      this.loadingOverlay = null;
+    }
+
+    if (this.decoders) {
+      this.decoders.then(disposeDecoders, () => {});
+      this.decoders = null;
+    }
+
     if (this.ui) {
       this.ui.dispose();
       this.ui = null;
@@ -767,9 +1549,19 @@ export class GLTFExploder {
       this.contextMenu = null;
     }
     
-    this.core?.dispose();
+    this.cores.forEach(core => core.dispose());
+    this.cores = [];
+    this.core = null;
+
+    this.lighting?.dispose();
+    this.lighting = null;
   }
 }
 
 // 导出类型和枚举
-export type { ExploderOptions, ProgressChangeCallback } from './core/types';
\ No newline at end of file
+export type { ExploderOptions, ProgressChangeCallback, AnimateOptions, ExplosionAnimation, EasingFunction, EasingName, ExplosionSequence, PartSelector, StaggerKey, PartOverride, ExplosionGranularity, PartRotation, ExplosionModeId, ExplosionModeContext, ExplosionModeDefinition, StraddlePolicy, FocusExplosion, ExplosionCenter, AxisSource, UpAxis, AutoFrameMode, HudTarget, ModeParamSchema, ModeParamValues, LoadProgressCallback, LoadErrorCallback, DecoderOptions, ModelOption, ModelFormatDefinition, ModelLoadContext } from './core/types';
+export { ExplosionMode } from './core/types';
+export { registerExplosionMode, unregisterExplosionMode, getExplosionModes, getBaseDistance } from './core/ModeRegistry';
+export { ExplosionEngine } from './core/Engine';
+export { isAbortError } from './core/ModelLoader';
+export { registerModelFormat, unregisterModelFormat, getModelFormats } from './core/LoaderRegistry';
@@ -0,0 +1,114 @@
+import { expect } from 'vitest';
+import { Group, Mesh, BoxGeometry, MeshBasicMaterial, Object3D, Vector3, Box3, Matrix4 } from 'three';
+
+/**
+ * 在父节点下添加一个方块网格
+ */
+export function addBox(
+  parent: Object3D,
+  name: string,
+  size: [number, number, number],
+  position: [number, number, number]
+): Mesh {
+  const mesh = new Mesh(new BoxGeometry(...size), new MeshBasicMaterial());
+  mesh.name = name;
+  mesh.position.set(...position);
+  parent.add(mesh);
+  return mesh;
+}
+
+/**
+ * 创建测试用装配体：底座、顶盖，以及装在子装配体中的左右两颗螺丝
+ */
+export function createAssembly(): Group {
+  const root = new Group();
+  root.name = 'Root';
+
+  addBox(root, 'Base', [2, 1, 2], [0, 0, 0]);
+  addBox(root, 'Lid', [2, 0.5, 2], [0, 1.5, 0]);
+
+  const screws = new Group();
+  screws.name = 'Screws';
+  screws.position.set(0, 0.5, 0);
+  root.add(screws);
+  addBox(screws, 'ScrewLeft', [0.3, 1, 0.3], [-1.5, 0, 0.5]);
+  addBox(screws, 'ScrewRight', [0.3, 1, 0.3], [1.5, 0, -0.5]);
+
+  root.updateMatrixWorld(true);
+  return root;
+}
+
+/**
+ * 装配体中的网格部件名称
+ */
+export const PART_NAMES = ['Base', 'Lid', 'ScrewLeft', 'ScrewRight'];
+
+/**
+ * 创建三个互相重叠的方块（用于防碰撞测试）
+ */
+export function createOverlappingBoxes(): Group {
+  const root = new Group();
+  [0, 0.3, 0.6].forEach((x, i) => addBox(root, `Box${i}`, [1, 1, 1], [x, i * 0.1, 0]));
+  root.updateMatrixWorld(true);
+  return root;
+}
+
+/**
+ * 按名称查找部件，不存在时抛出异常
+ */
+export function getPart(root: Object3D, name: string): Object3D {
+  const part = root.getObjectByName(name);
+  if (!part) throw new Error(`missing part ${name}`);
+  return part;
+}
+
+/**
+ * 读取对象当前的世界坐标
+ */
+export function worldPosition(object: Object3D): Vector3 {
+  object.updateWorldMatrix(true, false);
+  return object.getWorldPosition(new Vector3());
+}
+
+/**
+ * 读取对象当前的局部矩阵
+ */
+export function localMatrix(object: Object3D): Matrix4 {
+  object.updateMatrix();
+  return object.matrix.clone();
+}
+
+/**
+ * 逐元素比较两个矩阵
+ */
+export function expectMatrixClose(actual: Matrix4, expected: Matrix4): void {
+  actual.elements.forEach((value, i) => expect(value).toBeCloseTo(expected.elements[i], 6));
+}
+
+/**
+ * 两个包围盒在三个轴向上的最小重叠量（不重叠时为 0）
+ */
+export function overlapDepth(a: Box3, b: Box3): number {
+  let depth = Infinity;
+  for (const axis of ['x', 'y', 'z'] as const) {
+    const overlap = Math.min(a.max[axis], b.max[axis]) - Math.max(a.min[axis], b.min[axis]);
+    if (overlap <= 0) return 0;
+    depth = Math.min(depth, overlap);
+  }
+  return depth;
+}
+
+/**
+ * 模型直接子节点之间的最大重叠量
+ */
+export function maxOverlap(root: Object3D): number {
+  root.updateMatrixWorld(true);
+  const boxes = root.children.map(child => new Box3().setFromObject(child));
+  let max = 0;
+  for (let i = 0; i < boxes.length; i++) {
+    for (let j = i + 1; j < boxes.length; j++) {
+      max = Math.max(max, overlapDepth(boxes[i], boxes[j]));
+    }
+  }
+  return max;
+}
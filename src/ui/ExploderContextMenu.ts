@@ -2,12 +2,14 @@ import { isMobile } from '../core/utils';
 
 /**
  * 右键菜单组件
- * 用于提供显示/隐藏等操作
+ * 用于提供显示/隐藏、设置爆炸中心等操作
  */
 export class ExploderContextMenu {
   private menu: HTMLElement;
   private onHide: (() => void) | null = null;
   private onShowAll: (() => void) | null = null;
+  private onSetCenter: (() => void) | null = null;
+  private onPickCenter: (() => void) | null = null;
 
   constructor(_container: HTMLElement) {
     this.menu = this.createMenu();
@@ -56,7 +58,7 @@ export class ExploderContextMenu {
     return menu;
   }
 
-  public show(x: number, y: number, options: { showHide: boolean, showShowAll: boolean }): void {
+  public show(x: number, y: number, options: { showHide: boolean, showShowAll: boolean, showSetCenter?: boolean, showPickCenter?: boolean }): void {
     this.menu.innerHTML = '';
     
     if (options.showHide) {
@@ -73,6 +75,20 @@ export class ExploderContextMenu {
       }));
     }
 
+    if (options.showSetCenter) {
+      this.menu.appendChild(this.createItem('设为爆炸中心', () => {
+        if (this.onSetCenter) this.onSetCenter();
+        this.hide();
+      }));
+    }
+
+    if (options.showPickCenter) {
+      this.menu.appendChild(this.createItem('拾取爆炸中心', () => {
+        if (this.onPickCenter) this.onPickCenter();
+        this.hide();
+      }));
+    }
+
     if (this.menu.children.length === 0) return;
 
     // 边界检测
@@ -123,7 +139,7 @@ export class ExploderContextMenu {
     item.className = 'exploder-context-menu-item';
     
     const mobile = isMobile();
-    const itemIcon = text === '隐藏' ? '👁️‍🗨️' : '✨';
+    const itemIcon = text === '隐藏' ? '👁️‍🗨️' : (text.includes('爆炸中心') ? '🎯' : '✨');
     
     item.innerHTML = `<span style="margin-right: 12px; font-size: ${mobile ? '18px' : '16px'}">${itemIcon}</span><span>${text}</span>`;
     
@@ -161,6 +177,14 @@ export class ExploderContextMenu {
     this.onShowAll = callback;
   }
 
+  public setOnSetCenter(callback: () => void): void {
+    this.onSetCenter = callback;
+  }
+
+  public setOnPickCenter(callback: () => void): void {
+    this.onPickCenter = callback;
+  }
+
   public dispose(): void {
     if (this.menu.parentElement) {
       this.menu.parentElement.removeChild(this.menu);
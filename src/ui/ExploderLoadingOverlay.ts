@@ -0,0 +1,121 @@
+/**
+ * 模型加载遮罩
+ * 在视口中显示加载百分比，加载失败时显示错误信息
+ */
+export class ExploderLoadingOverlay {
+  private container: HTMLElement;
+  private titleDisplay: HTMLSpanElement;
+  private percentDisplay: HTMLSpanElement;
+  private track: HTMLElement;
+  private bar: HTMLElement;
+  private errorDisplay: HTMLElement;
+  private closeButton: HTMLButtonElement;
+
+  constructor(parent: HTMLElement, styles: Record<string, string>) {
+    // 创建遮罩
+    this.container = document.createElement('div');
+    this.container.className = 'exploder-loading-overlay';
+    this.container.setAttribute('style', styles.loadingOverlay);
+
+    const card = document.createElement('div');
+    card.setAttribute('style', styles.loadingCard);
+
+    // 标题与百分比
+    const header = document.createElement('div');
+    header.setAttribute('style', styles.labelContainer);
+    this.titleDisplay = document.createElement('span');
+    this.titleDisplay.setAttribute('style', styles.label);
+    this.percentDisplay = document.createElement('span');
+    this.percentDisplay.setAttribute('style', styles.value);
+    header.appendChild(this.titleDisplay);
+    header.appendChild(this.percentDisplay);
+
+    // 进度条
+    this.track = document.createElement('div');
+    this.track.setAttribute('style', styles.loadingTrack);
+    this.bar = document.createElement('div');
+    this.bar.setAttribute('style', styles.loadingBar);
+    this.track.appendChild(this.bar);
+
+    // 错误信息与关闭按钮
+    this.errorDisplay = document.createElement('div');
+    this.errorDisplay.setAttribute('style', styles.loadingError);
+    this.closeButton = document.createElement('button');
+    this.closeButton.setAttribute('style', styles.buttonReset);
+    this.closeButton.textContent = '关闭';
+    this.closeButton.onclick = () => this.hide();
+
+    card.appendChild(header);
+    card.appendChild(this.track);
+    card.appendChild(this.errorDisplay);
+    card.appendChild(this.closeButton);
+    this.container.appendChild(card);
+
+    // 确保视口有定位属性，遮罩才能铺满视口
+    if (window.getComputedStyle(parent).position === 'static') {
+      parent.style.position = 'relative';
+    }
+    parent.appendChild(this.container);
+  }
+
+  /**
+   * 显示加载进度（进度从 0 开始）
+   */
+  public show(): void {
+    this.setMode(false);
+    this.titleDisplay.textContent = '模型加载中';
+    this.percentDisplay.textContent = '';
+    this.bar.style.width = '0%';
+    this.container.style.display = 'flex';
+  }
+
+  /**
+   * 更新加载进度
+   * @param loaded 已加载字节数
+   * @param total 总字节数（0 表示未知）
+   */
+  public setProgress(loaded: number, total: number): void {
+    if (total <= 0) return;
+    const percent = Math.min(100, Math.round((loaded / total) * 100));
+    this.percentDisplay.textContent = `${percent}%`;
+    this.bar.style.width = `${percent}%`;
+  }
+
+  /**
+   * 显示加载失败信息，点击关闭后隐藏
+   * @param message 错误信息
+   */
+  public showError(message: string): void {
+    this.setMode(true);
+    this.titleDisplay.textContent = '模型加载失败';
+    this.percentDisplay.textContent = '';
+    this.errorDisplay.textContent = message;
+    this.container.style.display = 'flex';
+  }
+
+  /**
+   * 隐藏遮罩
+   */
+  public hide(): void {
+    this.container.style.display = 'none';
+  }
+
+  /**
+   * 切换进度与错误两种显示状态
+   * @private
+   */
+  private setMode(error: boolean): void {
+    this.track.style.display = error ? 'none' : 'block';
+    this.errorDisplay.style.display = error ? 'block' : 'none';
+    this.closeButton.style.display = error ? 'flex' : 'none';
+  }
+
+  /**
+   * 释放资源
+   */
+  public dispose(): void {
+    if (this.container.parentNode) {
+      this.container.parentNode.removeChild(this.container);
+    }
+  }
+}
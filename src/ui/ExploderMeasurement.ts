@@ -61,6 +61,13 @@ export class ExploderMeasurement {
   // 激活状态回调
   private onActiveChange?: (active: boolean) => void;
 
+  // 拾取模式：下一次点击返回吸附结果而不是创建测量
+  private pickCallback: ((snap: SnapResult | null) => void) | null = null;
+  // 拾取结束后是否退出测量模式（拾取前测量模式未开启）
+  private hideAfterPick: boolean = false;
+  // 拾取期间临时替换的吸附模式，拾取结束后恢复
+  private savedSnapModes: SnapMode[] | null = null;
+
   // 节流处理 (10Hz)
   private lastMouseMoveUpdateTime: number = 0;
   private lastStaticUpdateTime: number = 0;
@@ -246,6 +253,20 @@ export class ExploderMeasurement {
     }
     
     const snap = this.currentSnap;
+
+    // 拾取模式：返回吸附结果并结束拾取
+    if (this.pickCallback) {
+      const callback = this.pickCallback;
+      this.pickCallback = null;
+      this.restoreSnapModes();
+      if (this.hideAfterPick) {
+        this.hide();
+      } else {
+        this.previewDot.style.display = 'none';
+      }
+      callback({ ...snap, position: snap.position.clone() });
+      return;
+    }
     
     if (this.clickCount === 0) {
       // 第一次点击 - 设置起点
@@ -731,11 +752,65 @@ export class ExploderMeasurement {
 
   /**
    * 构建模型的吸附结构
+   * @param model 模型，或同一场景中的多个模型
    */
-  public buildSnapStructures(model: Object3D): void {
+  public buildSnapStructures(model: Object3D | Object3D[]): void {
     this.measurementTool.buildSnapStructures(model);
   }
 
+  /**
+   * 拾取一个吸附点（如拾取爆炸中心），下一次点击不会创建测量
+   * 拾取前测量模式未开启时，拾取结束后自动退出；退出测量模式视为取消
+   * @param onPick 拾取回调，取消时参数为 null
+   */
+  public pickPoint(onPick: (point: Vector3 | null) => void): void {
+    this.pickSnap(null, snap => onPick(snap ? snap.position : null));
+  }
+
+  /**
+   * 拾取一个吸附结果（如拾取面法线或边方向作为爆炸轴）
+   * @param modes 拾取期间使用的吸附模式，null 表示沿用当前设置
+   * @param onPick 拾取回调，取消时参数为 null
+   */
+  public pickSnap(modes: SnapMode[] | null, onPick: (snap: SnapResult | null) => void): void {
+    // 取消尚未完成的拾取
+    this.cancelPick();
+    // 丢弃进行到一半的测量
+    this.resetCurrentMeasurement();
+
+    if (modes) {
+      this.savedSnapModes = this.measurementTool.getConfig().snapModes;
+      this.measurementTool.setSnapMode(modes);
+    }
+    this.hideAfterPick = !this.visible;
+    this.pickCallback = onPick;
+    if (!this.visible) {
+      this.show();
+    }
+  }
+
+  /**
+   * 取消正在进行的拾取
+   */
+  private cancelPick(): void {
+    this.restoreSnapModes();
+    if (this.pickCallback) {
+      const callback = this.pickCallback;
+      this.pickCallback = null;
+      callback(null);
+    }
+  }
+
+  /**
+   * 恢复拾取前的吸附模式
+   */
+  private restoreSnapModes(): void {
+    if (this.savedSnapModes) {
+      this.measurementTool.setSnapMode(this.savedSnapModes);
+      this.savedSnapModes = null;
+    }
+  }
+
   /**
    * 显示测量 UI
    */
@@ -784,6 +859,7 @@ export class ExploderMeasurement {
     
     // 重置当前测量状态(但保留已完成的测量)
     this.resetCurrentMeasurement();
+    this.cancelPick();
     
     // 通知状态变化
     if (this.onActiveChange) {
@@ -1,7 +1,18 @@
-import { ExploderUI, MultiplierChangeCallback, ExposureChangeCallback, ExplosionMode, ModeChangeCallback, AxialChangeCallback, ModelChangeCallback, HelperVisibilityChangeCallback, ModelOption, ExploderUIStyle, EXPLODER_CONSTANTS } from '../core/types';
+import { ExploderUI, MultiplierChangeCallback, ExposureChangeCallback, ExplosionMode, ExplosionModeId, ModeChangeCallback, ModeParamChangeCallback, ModeParamValues, AxialChangeCallback, AxisSource, AxisSourceChangeCallback, ModelChangeCallback, HelperVisibilityChangeCallback, ModelOption, ExploderUIStyle, EXPLODER_CONSTANTS } from '../core/types';
 import { createStyles } from './styles';
 import { Vector3 } from 'three';
 import { LiquidGlass } from './LiquidGlass';
+import { getExplosionModes, getExplosionMode, onExplosionModesChange } from '../core/ModeRegistry';
+import { getAcceptedExtensions } from '../core/LoaderRegistry';
+
+/**
+ * 坐标轴预设
+ */
+const AXIS_PRESETS = [
+  { v: '0,1,0', l: 'Y 轴 (垂直)' },
+  { v: '1,0,0', l: 'X 轴 (横向)' },
+  { v: '0,0,1', l: 'Z 轴 (纵向)' }
+];
 
 /**
  * 爆炸视图面板控件
@@ -13,11 +24,18 @@ export class ExploderPanel implements ExploderUI {
   
   private multiplierSlider: HTMLInputElement;
   private exposureSlider: HTMLInputElement;
-  private modeButtons: Map<ExplosionMode, HTMLElement> = new Map();
+  private modeButtons: Map<string, HTMLElement> = new Map();
+  private modeGrid: HTMLElement;
+  private currentMode: ExplosionModeId;
+  private unsubscribeModes: () => void;
   private modelSelect?: HTMLSelectElement;
+  private modelFormats: Map<string, string> = new Map();
   private axialSelect: HTMLSelectElement;
+  private customAxisOption: HTMLOptionElement;
   private helperToggle?: HTMLInputElement;
   private axialContainer: HTMLElement;
+  private paramsContainer: HTMLElement;
+  private modeParamValues: Map<ExplosionModeId, ModeParamValues> = new Map();
   private multiplierDisplay: HTMLSpanElement;
   private exposureDisplay: HTMLSpanElement;
   private resetButton: HTMLButtonElement;
@@ -26,6 +44,8 @@ export class ExploderPanel implements ExploderUI {
   private onExposureChange?: ExposureChangeCallback;
   private onModeChange?: ModeChangeCallback;
   private onAxialChange?: AxialChangeCallback;
+  private onAxisSourceChange?: AxisSourceChangeCallback;
+  private onModeParamChange?: ModeParamChangeCallback;
   private onModelChange?: ModelChangeCallback;
   private onHelperVisibilityChange?: HelperVisibilityChangeCallback;
   private onReset?: () => void;
@@ -42,22 +62,27 @@ export class ExploderPanel implements ExploderUI {
     onReset?: () => void,
     initialMultiplier = EXPLODER_CONSTANTS.MULTIPLIER.DEFAULT,
     initialExposure = EXPLODER_CONSTANTS.EXPOSURE.DEFAULT,
-    initialMode = ExplosionMode.RADIAL,
+    initialMode: ExplosionModeId = ExplosionMode.RADIAL,
     initialAxial = new Vector3(0, 1, 0),
     initialHelperVisible = false,
     models: string[] | ModelOption[] = [],
     initialModel?: string,
     style: Partial<ExploderUIStyle> = {},
     showUpload = false,
-    showHelpers = false
+    showHelpers = false,
+    onAxisSourceChange?: AxisSourceChangeCallback,
+    onModeParamChange?: ModeParamChangeCallback
   ) {
     this.onMultiplierChange = onMultiplierChange;
     this.onExposureChange = onExposureChange;
     this.onModeChange = onModeChange;
     this.onAxialChange = onAxialChange;
+    this.onAxisSourceChange = onAxisSourceChange;
+    this.onModeParamChange = onModeParamChange;
     this.onModelChange = onModelChange;
     this.onHelperVisibilityChange = onHelperVisibilityChange;
     this.onReset = onReset;
+    this.currentMode = initialMode;
     this.styles = createStyles(style);
     
     // 1. 创建面板容器
@@ -99,6 +124,7 @@ export class ExploderPanel implements ExploderUI {
           const modelPath = typeof model === 'string' ? model : model.value;
           option.value = modelPath;
           option.textContent = typeof model === 'string' ? (model.split('/').pop() || model) : model.label;
+          if (typeof model !== 'string' && model.format) this.modelFormats.set(modelPath, model.format);
           if (modelPath === initialModel) option.selected = true;
           select.appendChild(option);
         });
@@ -123,17 +149,21 @@ export class ExploderPanel implements ExploderUI {
         `);
         uploadBtn.innerHTML = `
           <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="var(--exploder-text-sub)" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4M17 8l-5-5-5 5M12 3v12"/></svg>
-          <span style="font-size: 11px; font-weight: 600; color: var(--exploder-text-sub);">上传本地 GLB</span>
-          <input type="file" accept=".glb,.gltf" style="display: none;">
+          <span style="font-size: 11px; font-weight: 600; color: var(--exploder-text-sub);">上传本地模型</span>
+          <input type="file" style="display: none;">
         `;
         const fileInput = uploadBtn.querySelector('input') as HTMLInputElement;
+        // 扩展名来自外部注册的格式，不拼接进 HTML
+        fileInput.accept = getAcceptedExtensions();
         uploadBtn.onclick = () => fileInput.click();
         fileInput.onchange = (e) => {
           const file = (e.target as HTMLInputElement).files?.[0];
           if (file) {
             const url = URL.createObjectURL(file);
             // 我们在这里伪造一个 ModelChange 事件，但传递的是 Blob URL
-            this.onModelChange?.(url);
+            // Blob URL 不带扩展名，格式取自文件名
+            const dot = file.name.lastIndexOf('.');
+            this.onModelChange?.(url, dot > 0 ? file.name.substring(dot + 1) : file.type || undefined, file.name);
           }
         };
         
@@ -186,48 +216,56 @@ export class ExploderPanel implements ExploderUI {
 
     // 7. 爆炸模式
     const modeSection = this.createSection('爆炸模式', '选择不同的组件分离算法');
-    const modeGrid = document.createElement('div');
-    this.applyStyle(modeGrid, this.styles.grid);
-    
-    const modes = [
-      { id: ExplosionMode.RADIAL, label: '径向模式', icon: 'M12 3v3m0 12v3M3 12h3m12 0h3M5.6 5.6l2.1 2.1m8.6 8.6l2.1 2.1M5.6 18.4l2.1-2.1m8.6-8.6l2.1-2.1' },
-      { id: ExplosionMode.NORMALIZED_RADIAL, label: '归一化径向', icon: 'M21 3h-6M3 21h6M3 3v6M21 21v-6M3 3l7.5 7.5M21 21l-7.5-7.5' },
-      { id: ExplosionMode.AXIAL, label: '轴向模式', icon: 'M7 7h10M7 12h10M7 17h10' },
-      { id: ExplosionMode.FORCE_FIELD, label: '力场式', icon: 'M12 12m-9 0a9 9 0 1 0 18 0a9 9 0 1 0 -18 0 M12 12m-5 0a5 5 0 1 0 10 0a5 5 0 1 0 -10 0' },
-      { id: ExplosionMode.SIZE_WEIGHTED, label: '尺寸加权', icon: 'M3 6h18M7 12h10M10 18h4' },
-      { id: ExplosionMode.HIERARCHICAL, label: '装配树级', icon: 'M3 3h7v7H3zM14 3h7v7h-7zM14 14h7v7h-7zM3 14h7v7H3z' }
-    ];
-
-    modes.forEach(m => {
-      const btn = document.createElement('div');
-      btn.className = `exploder-mode-btn ${initialMode === m.id ? 'active' : ''}`;
-      btn.innerHTML = `
-        <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="${m.icon}"/></svg>
-        <span>${m.label}</span>
-      `;
-      btn.onclick = () => this.handleModeClick(m.id);
-      modeGrid.appendChild(btn);
-      this.modeButtons.set(m.id, btn);
+    this.modeGrid = document.createElement('div');
+    this.applyStyle(this.modeGrid, this.styles.grid);
+    // 模式按钮由模式注册表生成，注册新模式后自动刷新
+    this.renderModeButtons();
+    this.unsubscribeModes = onExplosionModesChange(() => {
+      this.renderModeButtons();
+      this.renderModeParams();
     });
-    modeSection.appendChild(modeGrid);
+    modeSection.appendChild(this.modeGrid);
 
-    // 轴向选择 (仅轴向模式可见)
+    // 轴向选择 (仅使用轴向的模式可见)
     this.axialContainer = document.createElement('div');
-    this.applyStyle(this.axialContainer, `margin-top: 8px; display: ${initialMode === ExplosionMode.AXIAL ? 'block' : 'none'}`);
+    this.applyStyle(this.axialContainer, `margin-top: 8px; display: ${getExplosionMode(initialMode)?.usesAxis ? 'block' : 'none'}`);
     this.axialSelect = document.createElement('select');
     this.applyStyle(this.axialSelect, this.styles.select);
+    AXIS_PRESETS.forEach(a => {
+      const opt = document.createElement('option');
+      opt.value = a.v; opt.textContent = a.l;
+      this.axialSelect.appendChild(opt);
+    });
+    // 几何推导的轴向：选择后由外部计算或拾取，完成后通过 updateAxialVector 回写
+    const sourceGroup = document.createElement('optgroup');
+    sourceGroup.label = '从模型推导';
     [
-      { v: '0,1,0', l: 'Y 轴 (垂直)' },
-      { v: '1,0,0', l: 'X 轴 (横向)' },
-      { v: '0,0,1', l: 'Z 轴 (纵向)' }
+      { v: 'principal-major', l: '模型主轴 (最长)' },
+      { v: 'principal-middle', l: '模型次轴' },
+      { v: 'principal-minor', l: '模型短轴 (最薄)' },
+      { v: 'face', l: '拾取面法线…' },
+      { v: 'edge', l: '拾取边方向…' }
     ].forEach(a => {
       const opt = document.createElement('option');
       opt.value = a.v; opt.textContent = a.l;
-      if (a.v === `${initialAxial.x},${initialAxial.y},${initialAxial.z}`) opt.selected = true;
-      this.axialSelect.appendChild(opt);
+      sourceGroup.appendChild(opt);
     });
+    this.axialSelect.appendChild(sourceGroup);
+    // 非坐标轴方向统一显示为自定义轴向
+    this.customAxisOption = document.createElement('option');
+    this.customAxisOption.value = 'custom';
+    this.customAxisOption.disabled = true;
+    this.customAxisOption.hidden = true;
+    this.axialSelect.appendChild(this.customAxisOption);
+    this.updateAxialVector(initialAxial);
     this.axialContainer.appendChild(this.axialSelect);
     modeSection.appendChild(this.axialContainer);
+
+    // 模式参数 (根据当前模式的参数定义生成)
+    this.paramsContainer = document.createElement('div');
+    this.applyStyle(this.paramsContainer, 'margin-top: 8px; display: flex; flex-direction: column; gap: 10px;');
+    this.renderModeParams();
+    modeSection.appendChild(this.paramsContainer);
     contentWrapper.appendChild(modeSection);
 
     // 8. 辅助选项
@@ -281,10 +319,18 @@ export class ExploderPanel implements ExploderUI {
       this.updateExposure(v);
       this.onExposureChange?.(v);
     };
-    if (this.modelSelect) this.modelSelect.onchange = (e) => this.onModelChange?.((e.target as HTMLSelectElement).value);
+    if (this.modelSelect) this.modelSelect.onchange = (e) => {
+      const value = (e.target as HTMLSelectElement).value;
+      this.onModelChange?.(value, this.modelFormats.get(value));
+    };
     this.axialSelect.onchange = (e) => {
-      const [x, y, z] = (e.target as HTMLSelectElement).value.split(',').map(Number);
-      this.onAxialChange?.(new Vector3(x, y, z));
+      const value = (e.target as HTMLSelectElement).value;
+      if (value.includes(',')) {
+        const [x, y, z] = value.split(',').map(Number);
+        this.onAxialChange?.(new Vector3(x, y, z));
+      } else if (value !== 'custom') {
+        this.onAxisSourceChange?.(value as AxisSource);
+      }
     };
     if (this.helperToggle) {
       this.helperToggle.onchange = (e) => this.onHelperVisibilityChange?.((e.target as HTMLInputElement).checked);
@@ -345,7 +391,97 @@ export class ExploderPanel implements ExploderUI {
     return wrap;
   }
 
-  private handleModeClick(mode: ExplosionMode): void {
+  /**
+   * 根据模式注册表重建模式按钮
+   */
+  private renderModeButtons(): void {
+    this.modeGrid.innerHTML = '';
+    this.modeButtons.clear();
+
+    getExplosionModes().forEach(([id, definition]) => {
+      const btn = document.createElement('div');
+      btn.className = `exploder-mode-btn ${this.currentMode === id ? 'active' : ''}`;
+      btn.innerHTML = `
+        <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path/></svg>
+      `;
+      // 图标与名称来自外部注册的模式，不拼接进 HTML，避免注入标记
+      btn.querySelector('path')!.setAttribute('d', definition.icon ?? 'M12 12m-3 0a3 3 0 1 0 6 0a3 3 0 1 0 -6 0');
+      const label = document.createElement('span');
+      label.textContent = definition.label;
+      btn.appendChild(label);
+      btn.onclick = () => this.handleModeClick(id);
+      this.modeGrid.appendChild(btn);
+      this.modeButtons.set(id, btn);
+    });
+  }
+
+  /**
+   * 根据当前模式的参数定义重建参数控件：数值参数为滑块，布尔参数为开关
+   */
+  private renderModeParams(): void {
+    if (!this.paramsContainer) return;
+    this.paramsContainer.innerHTML = '';
+
+    const mode = this.currentMode;
+    const schemas = getExplosionMode(mode)?.params ?? {};
+    const values = this.modeParamValues.get(mode) ?? {};
+    const setValue = (key: string, value: number | boolean) => {
+      this.modeParamValues.set(mode, { ...this.modeParamValues.get(mode), [key]: value });
+      this.onModeParamChange?.(mode, key, value);
+    };
+
+    Object.entries(schemas).forEach(([key, schema]) => {
+      if (schema.type === 'number') {
+        const value = typeof values[key] === 'number' ? values[key] as number : schema.default;
+        const step = schema.step ?? (schema.max - schema.min) / 100;
+        const decimals = Math.max(0, Math.ceil(-Math.log10(step)));
+
+        const wrap = document.createElement('div');
+        const labelWrap = this.createLabelWrapper(schema.label);
+        const display = document.createElement('span');
+        display.className = 'exploder-value';
+        this.applyStyle(display, this.styles.value);
+        display.textContent = value.toFixed(decimals);
+        labelWrap.appendChild(display);
+        wrap.appendChild(labelWrap);
+
+        const slider = document.createElement('input');
+        slider.type = 'range';
+        slider.className = 'exploder-slider';
+        slider.min = schema.min.toString();
+        slider.max = schema.max.toString();
+        slider.step = step.toString();
+        slider.value = value.toString();
+        this.applyStyle(slider, this.styles.slider);
+        slider.oninput = (e) => {
+          const v = parseFloat((e.target as HTMLInputElement).value);
+          display.textContent = v.toFixed(decimals);
+          setValue(key, v);
+        };
+        wrap.appendChild(slider);
+        this.paramsContainer.appendChild(wrap);
+      } else {
+        const row = document.createElement('label');
+        this.applyStyle(row, 'display: flex; align-items: center; gap: 10px; cursor: pointer; user-select: none;');
+        const toggle = document.createElement('input');
+        toggle.type = 'checkbox';
+        toggle.checked = typeof values[key] === 'boolean' ? values[key] as boolean : schema.default;
+        toggle.style.width = '16px';
+        toggle.style.height = '16px';
+        toggle.style.accentColor = 'var(--exploder-accent)';
+        toggle.onchange = (e) => setValue(key, (e.target as HTMLInputElement).checked);
+        row.appendChild(toggle);
+        const text = document.createElement('span');
+        text.textContent = schema.label;
+        this.applyStyle(text, 'font-size: 12px; font-weight: 500; color: var(--exploder-text-sub);');
+        row.appendChild(text);
+        this.paramsContainer.appendChild(row);
+      }
+    });
+    this.paramsContainer.style.display = this.paramsContainer.childElementCount > 0 ? 'flex' : 'none';
+  }
+
+  private handleModeClick(mode: ExplosionModeId): void {
     this.updateMode(mode);
     this.onModeChange?.(mode);
   }
@@ -372,14 +508,25 @@ export class ExploderPanel implements ExploderUI {
     this.exposureDisplay.textContent = exposure.toFixed(1);
   }
 
-  public updateMode(mode: ExplosionMode): void {
+  public updateMode(mode: ExplosionModeId): void {
+    const changed = mode !== this.currentMode;
+    this.currentMode = mode;
     this.modeButtons.forEach((btn, id) => {
       if (id === mode) btn.classList.add('active');
       else btn.classList.remove('active');
     });
     if (this.axialContainer) {
-      this.axialContainer.style.display = mode === ExplosionMode.AXIAL ? 'block' : 'none';
+      this.axialContainer.style.display = getExplosionMode(mode)?.usesAxis ? 'block' : 'none';
     }
+    if (changed) this.renderModeParams();
+  }
+
+  public updateModeParams(mode: ExplosionModeId, values: ModeParamValues): void {
+    const previous = this.modeParamValues.get(mode) ?? {};
+    const changed = Object.keys({ ...previous, ...values }).some(key => previous[key] !== values[key]);
+    this.modeParamValues.set(mode, { ...values });
+    // 值未变化时不重建控件，避免拖动滑块时回写导致控件被替换
+    if (changed && mode === this.currentMode) this.renderModeParams();
   }
 
   public updateHelperVisibility(visible: boolean): void {
@@ -387,10 +534,24 @@ export class ExploderPanel implements ExploderUI {
   }
 
   public updateAxialVector(vector: Vector3): void {
-    if (this.axialSelect) this.axialSelect.value = `${vector.x},${vector.y},${vector.z}`;
+    if (!this.axialSelect) return;
+    const direction = vector.clone().normalize();
+    const preset = AXIS_PRESETS.find(a => {
+      const [x, y, z] = a.v.split(',').map(Number);
+      return direction.distanceTo(new Vector3(x, y, z)) < 1e-6;
+    });
+    if (preset) {
+      this.customAxisOption.hidden = true;
+      this.axialSelect.value = preset.v;
+    } else {
+      this.customAxisOption.textContent = `自定义 (${direction.x.toFixed(2)}, ${direction.y.toFixed(2)}, ${direction.z.toFixed(2)})`;
+      this.customAxisOption.hidden = false;
+      this.axialSelect.value = 'custom';
+    }
   }
 
   public dispose(): void {
+    this.unsubscribeModes();
     this.liquidGlass?.dispose();
     if (this.element.parentNode) this.element.parentNode.removeChild(this.element);
   }
@@ -1,4 +1,6 @@
-import { ExploderUI, ExploderOptions, ProgressChangeCallback, MultiplierChangeCallback, ExposureChangeCallback, ExplosionMode, ModeChangeCallback, AxialChangeCallback, ModelChangeCallback, HelperVisibilityChangeCallback, MeasureActiveChangeCallback, EXPLODER_CONSTANTS } from '../core/types';
+import { ExploderUI, ExploderOptions, ProgressChangeCallback, MultiplierChangeCallback, ExposureChangeCallback, ExplosionMode, ExplosionModeId, ModeChangeCallback, ModeParamChangeCallback, ModeParamValues, AxialChangeCallback, AxisSourceChangeCallback, ModelChangeCallback, HelperVisibilityChangeCallback, MeasureActiveChangeCallback, EXPLODER_CONSTANTS } from '../core/types';
+import { SnapMode } from '../core/MeasurementTypes';
+import { Edge } from '../core/SnapDetector';
 import { ExploderPanel } from './ExploderPanel';
 import { ExploderHUD } from './ExploderHUD';
 import { ExploderInfoHUD } from './ExploderInfoHUD';
@@ -35,7 +37,7 @@ class CompositeUI implements ExploderUI {
     initialProgress = EXPLODER_CONSTANTS.PROGRESS.DEFAULT,
     initialMultiplier = EXPLODER_CONSTANTS.MULTIPLIER.DEFAULT,
     initialExposure = EXPLODER_CONSTANTS.EXPOSURE.DEFAULT,
-    initialMode = ExplosionMode.RADIAL,
+    initialMode: ExplosionModeId = ExplosionMode.RADIAL,
     initialAxial = new Vector3(0, 1, 0),
     initialHelperVisible = false,
     models?: any[],
@@ -46,7 +48,9 @@ class CompositeUI implements ExploderUI {
     modelName: string = '示例模型',
     faceCount: number = 0,
     showPanel = true,
-    showProgress = true
+    showProgress = true,
+    onAxisSourceChange?: AxisSourceChangeCallback,
+    onModeParamChange?: ModeParamChangeCallback
   ) {
     // 根元素使用容器
     this.element = container;
@@ -71,7 +75,9 @@ class CompositeUI implements ExploderUI {
         initialModel,
         style,
         showUpload,
-        showHelpers
+        showHelpers,
+        onAxisSourceChange,
+        onModeParamChange
       );
     }
 
@@ -198,7 +204,7 @@ class CompositeUI implements ExploderUI {
     this.panel?.updateExposure(exposure);
   }
 
-  updateMode(mode: ExplosionMode) {
+  updateMode(mode: ExplosionModeId) {
     this.panel?.updateMode(mode);
   }
 
@@ -206,6 +212,10 @@ class CompositeUI implements ExploderUI {
     this.panel?.updateAxialVector(vector);
   }
 
+  updateModeParams(mode: ExplosionModeId, values: ModeParamValues) {
+    this.panel?.updateModeParams(mode, values);
+  }
+
   updateHelperVisibility(visible: boolean) {
     this.panel?.updateHelperVisibility(visible);
   }
@@ -214,6 +224,10 @@ class CompositeUI implements ExploderUI {
     this.measurement?.setModelScale(scale);
   }
 
+  updateSnapTargets(models: Object3D[]) {
+    this.measurement?.buildSnapStructures(models);
+  }
+
   updateModel(modelPath: string) {
     // Note: This only updates the selection, the actual info update happens via updateInfo
     if (this.panel && (this.panel as any).updateModel) {
@@ -244,6 +258,37 @@ class CompositeUI implements ExploderUI {
     this.measurement?.toggle();
   }
 
+  pickPoint(onPick: (point: Vector3 | null) => void) {
+    if (this.measurement) {
+      this.measurement.pickPoint(onPick);
+    } else {
+      onPick(null);
+    }
+  }
+
+  pickAxis(source: 'face' | 'edge', onPick: (axis: Vector3 | null) => void) {
+    if (!this.measurement) {
+      onPick(null);
+      return;
+    }
+    const modes = source === 'face' ? [SnapMode.FACE] : [SnapMode.EDGE];
+    this.measurement.pickSnap(modes, (snap) => {
+      if (!snap) {
+        onPick(null);
+        return;
+      }
+      // 面取法线，边取起点到终点的方向
+      let axis: Vector3 | null = null;
+      if (snap.type === SnapMode.FACE && snap.normal) {
+        axis = snap.normal.clone();
+      } else if (snap.type === SnapMode.EDGE && snap.target) {
+        const edge = snap.target as Edge;
+        axis = edge.end.clone().sub(edge.start);
+      }
+      onPick(axis && axis.lengthSq() > 0 ? axis.normalize() : null);
+    });
+  }
+
   dispose() {
     window.removeEventListener('resize', this.resizeHandler);
     this.panel?.dispose();
@@ -269,6 +314,10 @@ class CompositeUI implements ExploderUI {
  * @param initialMode 初始模式
  * @param initialAxial 初始轴向
  * @param initialHelperVisible 初始辅助显示状态
+ * @param modelName 模型名称
+ * @param faceCount 模型面数
+ * @param onAxisSourceChange 轴向来源（主轴/拾取面/拾取边）选择回调
+ * @param onModeParamChange 模式参数变化回调
  * @returns UI 控件实例
  */
 export function createUI(
@@ -288,11 +337,13 @@ export function createUI(
   initialProgress = EXPLODER_CONSTANTS.PROGRESS.DEFAULT,
   initialMultiplier = EXPLODER_CONSTANTS.MULTIPLIER.DEFAULT,
   initialExposure = EXPLODER_CONSTANTS.EXPOSURE.DEFAULT,
-  initialMode = ExplosionMode.RADIAL,
+  initialMode: ExplosionModeId = ExplosionMode.RADIAL,
   initialAxial = new Vector3(0, 1, 0),
   initialHelperVisible = false,
   modelName: string = '示例模型',
-  faceCount: number = 0
+  faceCount: number = 0,
+  onAxisSourceChange?: AxisSourceChangeCallback,
+  onModeParamChange?: ModeParamChangeCallback
 ): ExploderUI | null {
   // 如果不创建 UI，则返回 null
   if (options.createUI === false) {
@@ -339,7 +390,9 @@ export function createUI(
     modelName,
     faceCount,
     options.showPanel ?? true,
-    options.showProgress ?? true
+    options.showProgress ?? true,
+    onAxisSourceChange,
+    onModeParamChange
   );
 }
 
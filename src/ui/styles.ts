@@ -150,6 +150,45 @@ export function createStyles(_style: Partial<ExploderUIStyle> = {}): Record<stri
     zoomButtonActive: `
       transform: translateY(0) scale(0.95);
       background: rgba(255, 255, 255, 0.2);
+    `,
+    loadingOverlay: `
+      position: absolute;
+      inset: 0;
+      display: none;
+      align-items: center;
+      justify-content: center;
+      background: rgba(255, 255, 255, 0.35);
+      z-index: 1100;
+    `,
+    loadingCard: `
+      width: 240px;
+      padding: 16px 20px;
+      display: flex;
+      flex-direction: column;
+      gap: 10px;
+      background: rgba(255, 255, 255, 0.85);
+      border: 1px solid var(--exploder-border);
+      border-radius: 16px;
+      box-shadow: 0 8px 32px 0 rgba(31, 38, 135, 0.1);
+      font-size: 12px;
+      color: var(--exploder-text-main);
+    `,
+    loadingTrack: `
+      height: 6px;
+      background: var(--exploder-bg-sub);
+      border-radius: 3px;
+      overflow: hidden;
+    `,
+    loadingBar: `
+      width: 0%;
+      height: 100%;
+      background: var(--exploder-accent);
+      border-radius: 3px;
+      transition: width 0.2s ease;
+    `,
+    loadingError: `
+      color: #DC2626;
+      word-break: break-all;
     `
   };
 }
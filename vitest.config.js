@@ -0,0 +1,9 @@
+import { defineConfig } from 'vite';
+
+// 单元测试配置（vite.config.js 的 root 为示例目录，测试需在项目根目录下运行）
+export default defineConfig({
+  test: {
+    environment: 'node',
+    include: ['src/**/*.test.ts']
+  }
+});